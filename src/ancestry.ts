@@ -0,0 +1,127 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { BaselineFreshness, BundleStats } from './types';
+
+const MAX_ANCESTORS = 100;
+
+export interface MergeBaseAncestry {
+  mergeBase: string;
+  // First-parent chain starting at the merge-base itself.
+  ancestors: string[];
+}
+
+export async function resolveMergeBaseAncestry(
+  token: string,
+  baseSha: string,
+  headSha: string
+): Promise<MergeBaseAncestry | null> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  try {
+    const comparison = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${baseSha}...${headSha}`,
+      per_page: 1,
+    });
+    const mergeBase = comparison.data.merge_base_commit.sha;
+
+    const history = await octokit.rest.repos.listCommits({
+      owner,
+      repo,
+      sha: mergeBase,
+      per_page: MAX_ANCESTORS,
+    });
+    const parentOf = new Map(
+      history.data.map((commit) => [commit.sha, commit.parents[0]?.sha])
+    );
+
+    // listCommits orders by date; walk first parents so distance is exact.
+    const ancestors: string[] = [];
+    let sha: string | undefined = mergeBase;
+    while (sha && parentOf.has(sha) && ancestors.length < MAX_ANCESTORS) {
+      ancestors.push(sha);
+      sha = parentOf.get(sha);
+    }
+    if (ancestors.length === 0) ancestors.push(mergeBase);
+
+    core.info(
+      `Merge-base ${mergeBase.slice(0, 7)} (${ancestors.length} ancestors considered)`
+    );
+    return { mergeBase, ancestors };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to resolve merge-base: ${message}`);
+    return null;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Relation = BaselineFreshness['relation'];
+
+async function relateToBase(
+  token: string,
+  baselineCommit: string,
+  baseSha: string
+): Promise<{ relation: Relation; commitsBehind: number | null }> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  try {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${baselineCommit}...${baseSha}`,
+      per_page: 1,
+    });
+    // "ahead" means the PR base is ahead of the baseline commit.
+    switch (data.status) {
+      case 'identical':
+        return { relation: 'identical', commitsBehind: 0 };
+      case 'ahead':
+        return { relation: 'ancestor', commitsBehind: data.ahead_by };
+      case 'behind':
+        return { relation: 'descendant', commitsBehind: 0 };
+      default:
+        return { relation: 'diverged', commitsBehind: data.ahead_by };
+    }
+  } catch (error: unknown) {
+    // Force-pushed commits disappear once they are garbage collected.
+    if ((error as { status?: number }).status === 404) {
+      return { relation: 'missing', commitsBehind: null };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to compare baseline with PR base: ${message}`);
+    return { relation: 'unknown', commitsBehind: null };
+  }
+}
+
+export async function assessBaselineFreshness(
+  token: string,
+  baseline: BundleStats,
+  baseSha: string,
+  maxAgeDays: number | null
+): Promise<BaselineFreshness> {
+  const recorded = Date.parse(baseline.timestamp);
+  const ageDays = Number.isNaN(recorded)
+    ? null
+    : Math.max(0, (Date.now() - recorded) / DAY_MS);
+  const { relation, commitsBehind } = await relateToBase(
+    token,
+    baseline.commit,
+    baseSha
+  );
+
+  let reason: string | null = null;
+  if (relation === 'diverged') {
+    reason = `baseline commit ${baseline.commit.slice(0, 7)} is not in the history of the PR base`;
+  } else if (relation === 'missing') {
+    reason = `baseline commit ${baseline.commit.slice(0, 7)} no longer exists in the repository`;
+  } else if (maxAgeDays !== null && ageDays !== null && ageDays > maxAgeDays) {
+    reason = `baseline is ${Math.floor(ageDays)} days old (limit ${maxAgeDays})`;
+  }
+
+  return { ageDays, commitsBehind, relation, stale: reason !== null, reason };
+}
@@ -3,10 +3,15 @@ import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
 import AdmZip from 'adm-zip';
-import { BundleStats } from './types';
+import { BundleStats, PullRequestInfo } from './types';
+import { parseBundleStats } from './schema';
 
 const ARTIFACT_NAME = 'bundle-stats';
 const STATS_FILE = 'bundle-stats.json';
+const PR_ARTIFACT_NAME = 'bundle-stats-pr';
+const PR_INFO_FILE = 'pull-request.json';
+const TREEMAP_ARTIFACT_NAME = 'bundle-treemap';
+const TREEMAP_FILE = 'bundle-treemap.html';
 const RETRY_COUNT = 3;
 const RETRY_BASE_DELAY_MS = 1000;
 const MAX_ARTIFACT_SIZE_MB = 50;
@@ -18,6 +23,7 @@ interface ArtifactItem {
   expired?: boolean;
   workflow_run?: {
     head_branch?: string | null;
+    head_sha?: string;
   };
 }
 
@@ -52,6 +58,11 @@ function extractArtifacts(data: unknown): ArtifactItem[] {
   return Array.isArray(data) ? (data as ArtifactItem[]) : [];
 }
 
+// Each build variant keeps its own artifacts, e.g. bundle-stats.legacy.
+function artifactName(base: string, variant: string | null): string {
+  return variant ? `${base}.${variant}` : base;
+}
+
 function toBuffer(data: unknown): Buffer {
   if (data instanceof ArrayBuffer) return Buffer.from(data);
   if (Buffer.isBuffer(data)) return data;
@@ -60,7 +71,10 @@ function toBuffer(data: unknown): Buffer {
   throw new Error('Unsupported artifact download response');
 }
 
-export async function saveBaselineArtifact(stats: BundleStats): Promise<void> {
+export async function saveBaselineArtifact(
+  stats: BundleStats,
+  variant: string | null = null
+): Promise<void> {
   const { DefaultArtifactClient } = await import('@actions/artifact');
   const client = new DefaultArtifactClient();
   const tempDir = process.env.RUNNER_TEMP || '/tmp';
@@ -68,20 +82,162 @@ export async function saveBaselineArtifact(stats: BundleStats): Promise<void> {
 
   fs.writeFileSync(filePath, JSON.stringify(stats, null, 2));
 
-  await client.uploadArtifact(ARTIFACT_NAME, [filePath], tempDir, {
-    retentionDays: 90,
-  });
+  await client.uploadArtifact(
+    artifactName(ARTIFACT_NAME, variant),
+    [filePath],
+    tempDir,
+    { retentionDays: 90 }
+  );
 
   core.info('Baseline stats uploaded as artifact');
 }
 
+export async function uploadTreemapArtifact(
+  html: string,
+  variant: string | null = null
+): Promise<string | null> {
+  try {
+    const { DefaultArtifactClient } = await import('@actions/artifact');
+    const client = new DefaultArtifactClient();
+    const tempDir = path.join(process.env.RUNNER_TEMP || '/tmp', 'treemap');
+    fs.mkdirSync(tempDir, { recursive: true });
+    const filePath = path.join(tempDir, TREEMAP_FILE);
+    fs.writeFileSync(filePath, html);
+
+    const { id } = await client.uploadArtifact(
+      artifactName(TREEMAP_ARTIFACT_NAME, variant),
+      [filePath],
+      tempDir,
+      { retentionDays: 30 }
+    );
+    core.info('Treemap uploaded as artifact');
+    if (!id) return null;
+
+    const { owner, repo } = github.context.repo;
+    return `${github.context.serverUrl}/${owner}/${repo}/actions/runs/${github.context.runId}/artifacts/${id}`;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to upload treemap: ${message}`);
+    return null;
+  }
+}
+
+export async function savePullRequestArtifact(
+  stats: BundleStats,
+  pr: PullRequestInfo,
+  variant: string | null = null
+): Promise<void> {
+  const { DefaultArtifactClient } = await import('@actions/artifact');
+  const client = new DefaultArtifactClient();
+  const tempDir = path.join(process.env.RUNNER_TEMP || '/tmp', 'pr-stats');
+  fs.mkdirSync(tempDir, { recursive: true });
+  const statsPath = path.join(tempDir, STATS_FILE);
+  const infoPath = path.join(tempDir, PR_INFO_FILE);
+
+  fs.writeFileSync(statsPath, JSON.stringify(stats, null, 2));
+  fs.writeFileSync(infoPath, JSON.stringify(pr, null, 2));
+
+  await client.uploadArtifact(
+    artifactName(PR_ARTIFACT_NAME, variant),
+    [statsPath, infoPath],
+    tempDir,
+    {
+      retentionDays: 7,
+    }
+  );
+
+  core.info(`PR stats uploaded as artifact for #${pr.number}`);
+}
+
+function parsePullRequestInfo(raw: unknown): PullRequestInfo {
+  const info = raw as Partial<PullRequestInfo> | null;
+  if (
+    !info ||
+    !Number.isInteger(info.number) ||
+    typeof info.baseRef !== 'string' ||
+    typeof info.baseSha !== 'string' ||
+    typeof info.headSha !== 'string'
+  ) {
+    throw new Error(`${PR_INFO_FILE} is malformed`);
+  }
+  return {
+    number: info.number as number,
+    baseRef: info.baseRef,
+    baseSha: info.baseSha,
+    headSha: info.headSha,
+  };
+}
+
+function parseUploadedStats(raw: unknown): BundleStats {
+  try {
+    return parseBundleStats(raw);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${STATS_FILE} is malformed: ${message}`);
+  }
+}
+
+export async function fetchPullRequestArtifact(
+  token: string,
+  runId: number,
+  variant: string | null = null
+): Promise<{ stats: BundleStats; pr: PullRequestInfo } | null> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+
+  const response = await retryOnFail(
+    () =>
+      octokit.rest.actions.listWorkflowRunArtifacts({
+        owner,
+        repo,
+        run_id: runId,
+        per_page: 100,
+      }),
+    'listWorkflowRunArtifacts'
+  );
+  const name = artifactName(PR_ARTIFACT_NAME, variant);
+  const artifact = extractArtifacts(response.data).find(
+    (item) => item.name === name && !item.expired
+  );
+  if (!artifact) return null;
+
+  const extractDir = createExtractDir('pr-stats-extracted');
+  if (
+    !(await downloadArtifactFiles(
+      octokit,
+      owner,
+      repo,
+      artifact.id,
+      extractDir
+    ))
+  ) {
+    return null;
+  }
+
+  // Everything in this artifact was produced by untrusted PR code.
+  for (const file of [STATS_FILE, PR_INFO_FILE]) {
+    if (!fs.existsSync(path.join(extractDir, file))) {
+      core.warning(`${file} not found in artifact ${name}`);
+      return null;
+    }
+  }
+  const read = (file: string): unknown =>
+    JSON.parse(fs.readFileSync(path.join(extractDir, file), 'utf-8'));
+  return {
+    stats: parseUploadedStats(read(STATS_FILE)),
+    pr: parsePullRequestInfo(read(PR_INFO_FILE)),
+  };
+}
+
 export async function fetchBaselineArtifact(
   token: string,
   branches: string[],
-  maxPages: number = 10
+  maxPages: number = 10,
+  variant: string | null = null
 ): Promise<BundleStats | null> {
   const octokit = github.getOctokit(token);
   const { owner, repo } = github.context.repo;
+  const name = artifactName(ARTIFACT_NAME, variant);
 
   try {
     let workflowArtifact: ArtifactItem | null = null;
@@ -90,7 +246,8 @@ export async function fetchBaselineArtifact(
         octokit,
         owner,
         repo,
-        branches
+        branches,
+        name
       );
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
@@ -111,7 +268,6 @@ export async function fetchBaselineArtifact(
     }
 
     const branchSet = new Set(branches);
-    let artifact: ArtifactItem | null = null;
     let pageCount = 0;
     let totalArtifactsChecked = 0;
 
@@ -132,19 +288,22 @@ export async function fetchBaselineArtifact(
       totalArtifactsChecked += artifacts.length;
 
       for (const item of artifacts) {
-        if (item.name !== ARTIFACT_NAME || item.expired) continue;
+        if (item.name !== name || item.expired) continue;
+        if (item.id === workflowArtifact?.id) continue;
         const headBranch = item.workflow_run?.head_branch;
-        if (headBranch && branchSet.has(headBranch)) {
-          artifact = item;
-          break;
-        }
-      }
-
-      if (artifact) {
+        if (!headBranch || !branchSet.has(headBranch)) continue;
         core.info(
           `Found baseline artifact after checking ${totalArtifactsChecked} artifacts (${pageCount} pages)`
         );
-        break;
+        // An invalid artifact falls through to the next older one.
+        const stats = await downloadBaselineArtifact(
+          octokit,
+          owner,
+          repo,
+          item.id,
+          'repo-pagination'
+        );
+        if (stats) return stats;
       }
 
       if (pageCount >= maxPages) {
@@ -158,20 +317,70 @@ export async function fetchBaselineArtifact(
       }
     }
 
-    if (!artifact) {
-      core.info(
-        `No baseline artifact found for ${branches.join(', ')} after checking ${totalArtifactsChecked} artifacts (${pageCount} pages)`
+    core.info(
+      `No usable baseline artifact found for ${branches.join(', ')} after checking ${totalArtifactsChecked} artifacts (${pageCount} pages)`
+    );
+    return null;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to download baseline: ${message}`);
+    return null;
+  }
+}
+
+export async function fetchBaselineArtifactForCommits(
+  token: string,
+  commits: string[],
+  maxPages: number = 10,
+  variant: string | null = null
+): Promise<BundleStats | null> {
+  const octokit = github.getOctokit(token);
+  const { owner, repo } = github.context.repo;
+  const name = artifactName(ARTIFACT_NAME, variant);
+  // Earlier commits are preferred: commits[0] is the exact match.
+  const rank = new Map(commits.map((sha, index) => [sha, index]));
+
+  try {
+    // The newest artifact of each candidate commit, by rank.
+    const found = new Map<number, ArtifactItem>();
+    let pageCount = 0;
+
+    for await (const response of octokit.paginate.iterator(
+      octokit.rest.actions.listArtifactsForRepo,
+      {
+        owner,
+        repo,
+        name,
+        per_page: 100,
+      }
+    )) {
+      pageCount++;
+      for (const item of extractArtifacts(response.data)) {
+        if (item.name !== name || item.expired) continue;
+        const index = rank.get(item.workflow_run?.head_sha ?? '');
+        if (index === undefined || found.has(index)) continue;
+        found.set(index, item);
+      }
+      if (found.has(0) || pageCount >= maxPages) break;
+    }
+
+    // An invalid artifact falls through to the next-best commit.
+    const ranked = Array.from(found).sort(([a], [b]) => a - b);
+    for (const [, item] of ranked) {
+      const stats = await downloadBaselineArtifact(
+        octokit,
+        owner,
+        repo,
+        item.id,
+        'commit-search'
       );
-      return null;
+      if (stats) return stats;
     }
 
-    return await downloadBaselineArtifact(
-      octokit,
-      owner,
-      repo,
-      artifact.id,
-      'repo-pagination'
+    core.info(
+      `No usable baseline artifact found for ${commits.length} candidate commits (${pageCount} pages)`
     );
+    return null;
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     core.warning(`Failed to download baseline: ${message}`);
@@ -183,7 +392,8 @@ async function findBaselineArtifactFromWorkflowRuns(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
-  branches: string[]
+  branches: string[],
+  name: string
 ): Promise<ArtifactItem | null> {
   const workflowId = await resolveWorkflowId(octokit, owner, repo);
   if (!workflowId) return null;
@@ -216,7 +426,7 @@ async function findBaselineArtifactFromWorkflowRuns(
       );
       const artifacts = extractArtifacts(artifactsResponse.data);
       for (const item of artifacts) {
-        if (item.name === ARTIFACT_NAME && !item.expired) {
+        if (item.name === name && !item.expired) {
           core.info(
             `Found baseline artifact in workflow run ${run.id} (${branch})`
           );
@@ -284,13 +494,20 @@ function getWorkflowFileFromRef(): string | null {
   return match ? match[1] : null;
 }
 
-async function downloadBaselineArtifact(
+// A fresh directory per download, so files from an earlier artifact (another
+// variant, or a skipped invalid baseline) are never read by mistake.
+function createExtractDir(prefix: string): string {
+  const tempDir = process.env.RUNNER_TEMP || '/tmp';
+  return fs.mkdtempSync(path.join(tempDir, `${prefix}-`));
+}
+
+async function downloadArtifactFiles(
   octokit: ReturnType<typeof github.getOctokit>,
   owner: string,
   repo: string,
   artifactId: number,
-  source: 'workflow-run' | 'repo-pagination'
-): Promise<BundleStats | null> {
+  extractDir: string
+): Promise<boolean> {
   const { data: downloadData } = await retryOnFail(
     () =>
       octokit.rest.actions.downloadArtifact({
@@ -306,14 +523,13 @@ async function downloadBaselineArtifact(
   );
 
   const tempDir = process.env.RUNNER_TEMP || '/tmp';
-  const zipPath = path.join(tempDir, 'baseline-artifact.zip');
-  const extractDir = path.join(tempDir, 'baseline-extracted');
+  const zipPath = path.join(tempDir, `${path.basename(extractDir)}.zip`);
 
   const zipBuffer = toBuffer(downloadData);
 
   if (zipBuffer.length === 0) {
     core.warning('Downloaded artifact is empty');
-    return null;
+    return false;
   }
   const maxBytes = MAX_ARTIFACT_SIZE_MB * 1024 * 1024;
   if (zipBuffer.length > maxBytes) {
@@ -351,7 +567,7 @@ async function downloadBaselineArtifact(
         core.warning(
           `Artifact unzipped size exceeds ${MAX_ARTIFACT_UNZIPPED_MB} MB; aborting extraction.`
         );
-        return null;
+        return false;
       }
 
       const entryData = entry.getData();
@@ -360,7 +576,7 @@ async function downloadBaselineArtifact(
         core.warning(
           `Artifact unzipped size exceeds ${MAX_ARTIFACT_UNZIPPED_MB} MB; aborting extraction.`
         );
-        return null;
+        return false;
       }
 
       unzippedBytes += entrySize;
@@ -371,6 +587,23 @@ async function downloadBaselineArtifact(
     const message =
       zipError instanceof Error ? zipError.message : String(zipError);
     core.warning(`Failed to extract artifact zip: ${message}`);
+    return false;
+  }
+
+  return true;
+}
+
+async function downloadBaselineArtifact(
+  octokit: ReturnType<typeof github.getOctokit>,
+  owner: string,
+  repo: string,
+  artifactId: number,
+  source: 'workflow-run' | 'repo-pagination' | 'commit-search'
+): Promise<BundleStats | null> {
+  const extractDir = createExtractDir('baseline-extracted');
+  if (
+    !(await downloadArtifactFiles(octokit, owner, repo, artifactId, extractDir))
+  ) {
     return null;
   }
 
@@ -381,8 +614,16 @@ async function downloadBaselineArtifact(
     return null;
   }
 
-  const content = fs.readFileSync(statsPath, 'utf-8');
-  const stats = JSON.parse(content) as BundleStats;
+  let stats: BundleStats;
+  try {
+    stats = parseBundleStats(JSON.parse(fs.readFileSync(statsPath, 'utf-8')));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(
+      `Ignoring invalid baseline artifact ${artifactId} (${source}); treating as no baseline. ${message}`
+    );
+    return null;
+  }
 
   core.info(
     `Baseline loaded (${source}): ${stats.totalGzip} bytes gzip from commit ${stats.commit.slice(0, 7)}`
@@ -1,7 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as core from '@actions/core';
-import { isAssetFile } from './utils';
+import { AssetFilter } from './types';
+import { DEFAULT_ASSET_FILTER, matchesAssetFilter } from './utils';
+
+const OUTPUT_DIRS = ['dist', 'build', 'out', '.next', '.output/public'];
 
 export interface OutputPathResult {
   path: string;
@@ -9,7 +12,13 @@ export interface OutputPathResult {
   reason: string;
 }
 
-function directoryHasAssets(dir: string): boolean {
+// Counts the files the scan would pick up; include/exclude globs are
+// relative to the candidate output directory.
+function directoryHasAssets(
+  dir: string,
+  filter: AssetFilter,
+  root: string = dir
+): boolean {
   let entries: fs.Dirent[];
   try {
     entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -22,8 +31,11 @@ function directoryHasAssets(dir: string): boolean {
   for (const entry of entries) {
     const fullPath = path.join(dir, entry.name);
     if (entry.isDirectory()) {
-      if (directoryHasAssets(fullPath)) return true;
-    } else if (entry.isFile() && isAssetFile(entry.name)) {
+      if (directoryHasAssets(fullPath, filter, root)) return true;
+    } else if (
+      entry.isFile() &&
+      matchesAssetFilter(path.relative(root, fullPath), filter)
+    ) {
       return true;
     }
   }
@@ -33,6 +45,7 @@ function directoryHasAssets(dir: string): boolean {
 
 export function locateBuildOutput(
   userProvidedPath: string | undefined,
+  assetFilter: AssetFilter = DEFAULT_ASSET_FILTER,
   repoRoot: string = process.cwd()
 ): OutputPathResult | null {
   if (userProvidedPath) {
@@ -45,11 +58,10 @@ export function locateBuildOutput(
 
   core.info('No dist-path provided, attempting auto-detection...');
 
-  const commonPaths = ['dist', 'build', 'out', '.next', '.output/public'];
-  for (const dirName of commonPaths) {
+  for (const dirName of OUTPUT_DIRS) {
     const fullPath = path.join(repoRoot, dirName);
     if (fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory()) {
-      if (!directoryHasAssets(fullPath)) continue;
+      if (!directoryHasAssets(fullPath, assetFilter)) continue;
       return {
         path: dirName,
         mode: 'auto',
@@ -76,7 +88,7 @@ export function locateBuildOutput(
         fs.existsSync(candidatePath) &&
         fs.statSync(candidatePath).isDirectory()
       ) {
-        if (!directoryHasAssets(candidatePath)) continue;
+        if (!directoryHasAssets(candidatePath, assetFilter)) continue;
         return {
           path: config.candidate,
           mode: 'auto',
@@ -114,16 +126,10 @@ export function locateBuildOutput(
       for (const subDir of subDirs) {
         const subPath = path.join(monoPath, subDir);
         if (safeStatDir(subPath)) {
-          for (const outDir of [
-            'dist',
-            'build',
-            'out',
-            '.next',
-            '.output/public',
-          ]) {
+          for (const outDir of OUTPUT_DIRS) {
             const outputPath = path.join(subPath, outDir);
             if (safeStatDir(outputPath)) {
-              if (!directoryHasAssets(outputPath)) continue;
+              if (!directoryHasAssets(outputPath, assetFilter)) continue;
               candidates.push(path.join(monoDir, subDir, outDir));
             }
           }
@@ -143,7 +149,7 @@ export function locateBuildOutput(
   if (candidates.length > 1) {
     core.warning(
       `Multiple output directories detected: ${candidates.join(', ')}. ` +
-        'Please specify dist-path input to choose one.'
+        'Please specify dist-path input to choose one, or set workspaces: true to report every package.'
     );
     return null;
   }
@@ -154,3 +160,23 @@ export function locateBuildOutput(
   );
   return null;
 }
+
+// The first conventional output directory of a workspace package that
+// contains assets, relative to the repo root.
+export function locatePackageOutput(
+  packageDir: string,
+  assetFilter: AssetFilter = DEFAULT_ASSET_FILTER,
+  repoRoot: string = process.cwd()
+): string | null {
+  for (const outDir of OUTPUT_DIRS) {
+    const candidate = path.join(repoRoot, packageDir, outDir);
+    if (
+      fs.existsSync(candidate) &&
+      fs.statSync(candidate).isDirectory() &&
+      directoryHasAssets(candidate, assetFilter)
+    ) {
+      return path.join(packageDir, outDir);
+    }
+  }
+  return null;
+}
@@ -2,6 +2,7 @@ import * as core from '@actions/core';
 import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
+import * as path from 'path';
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
@@ -14,7 +15,8 @@ export async function executeBuild(
   command: string,
   timeoutMs: number,
   failOnStderr: boolean,
-  allowUnsafeShell: boolean
+  allowUnsafeShell: boolean,
+  cwd: string = process.cwd()
 ): Promise<void> {
   core.info(`Running build: ${command}`);
   core.info(`Build timeout: ${Math.round(timeoutMs / 60000)} minutes`);
@@ -32,6 +34,7 @@ export async function executeBuild(
       }
       const { stdout, stderr } = await execAsync(trimmed, {
         maxBuffer: 10 * 1024 * 1024,
+        cwd,
         env: { ...process.env, CI: 'true' },
         timeout: timeoutMs,
         killSignal: 'SIGTERM',
@@ -39,10 +42,9 @@ export async function executeBuild(
       if (stdout) core.info(stdout);
       if (stderr) {
         if (failOnStderr) {
-          core.setFailed(
+          throw new Error(
             'Build produced stderr output and fail-on-stderr is enabled.'
           );
-          throw new Error('Build produced stderr output');
         }
         core.warning(stderr);
       }
@@ -51,6 +53,7 @@ export async function executeBuild(
     const [file, ...args] = trimmed.split(/\s+/);
     const { stdout, stderr } = await execFileAsync(file, args, {
       maxBuffer: 10 * 1024 * 1024,
+      cwd,
       env: { ...process.env, CI: 'true' },
       timeout: timeoutMs,
       killSignal: 'SIGTERM',
@@ -59,52 +62,52 @@ export async function executeBuild(
     if (stdout) core.info(stdout);
     if (stderr) {
       if (failOnStderr) {
-        core.setFailed(
+        throw new Error(
           'Build produced stderr output and fail-on-stderr is enabled.'
         );
-        throw new Error('Build produced stderr output');
       }
       core.warning(stderr);
     }
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
-    core.setFailed(`Build failed: ${message}`);
-    throw error;
+    // Callers decide whether a failed build fails the job.
+    throw new Error(`Build failed: ${message}`);
   }
 }
 
-export async function installDeps(): Promise<void> {
+export async function installDeps(cwd: string = process.cwd()): Promise<void> {
   core.info('Installing dependencies...');
 
   try {
-    const manager = findPackageManager();
+    const manager = findPackageManager(cwd);
     if (manager === 'pnpm') {
       core.info('Detected pnpm, running pnpm install');
-      await execFileAsync('pnpm', ['install', '--frozen-lockfile']);
+      await execFileAsync('pnpm', ['install', '--frozen-lockfile'], { cwd });
       return;
     }
     if (manager === 'yarn') {
       core.info('Detected yarn, running yarn install');
-      await execFileAsync('yarn', ['install', '--frozen-lockfile']);
+      await execFileAsync('yarn', ['install', '--frozen-lockfile'], { cwd });
       return;
     }
     if (manager === 'npm-ci') {
       core.info('Detected npm, running npm ci');
-      await execFileAsync('npm', ['ci']);
+      await execFileAsync('npm', ['ci'], { cwd });
       return;
     }
     core.info('No lockfile found, running npm install');
-    await execFileAsync('npm', ['install']);
+    await execFileAsync('npm', ['install'], { cwd });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
-    core.setFailed(`Dependency installation failed: ${message}`);
-    throw error;
+    throw new Error(`Dependency installation failed: ${message}`);
   }
 }
 
-function findPackageManager(): 'pnpm' | 'yarn' | 'npm-ci' | 'npm-install' {
-  if (fs.existsSync('pnpm-lock.yaml')) return 'pnpm';
-  if (fs.existsSync('yarn.lock')) return 'yarn';
-  if (fs.existsSync('package-lock.json')) return 'npm-ci';
+function findPackageManager(
+  cwd: string
+): 'pnpm' | 'yarn' | 'npm-ci' | 'npm-install' {
+  if (fs.existsSync(path.join(cwd, 'pnpm-lock.yaml'))) return 'pnpm';
+  if (fs.existsSync(path.join(cwd, 'yarn.lock'))) return 'yarn';
+  if (fs.existsSync(path.join(cwd, 'package-lock.json'))) return 'npm-ci';
   return 'npm-install';
 }
@@ -0,0 +1,159 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import * as path from 'path';
+import { BudgetViolation, DiffResult } from './types';
+import { buildCommentMarkdown } from './report';
+import { formatFileDelta } from './compare';
+import { formatBytes } from './scan';
+import { matchesGlob } from './utils';
+
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+const MAX_SUMMARY_LENGTH = 65535;
+
+type Conclusion = 'success' | 'neutral' | 'failure';
+
+interface Annotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title: string;
+  message: string;
+}
+
+export function checkConclusion(diff: DiffResult): Conclusion {
+  if (diff.status === 'fail') return 'failure';
+  if (
+    diff.status === 'no-baseline' ||
+    diff.status === 'stale-baseline' ||
+    diff.thresholdStatus === 'warn'
+  ) {
+    return 'neutral';
+  }
+  return 'success';
+}
+
+function checkTitle(diff: DiffResult): string {
+  if (!diff.baseline) return 'No baseline found';
+  const sign = diff.diffMetric >= 0 ? '+' : '';
+  return `${sign}${formatBytes(diff.diffMetric)} ${diff.compareMetric} (${sign}${diff.diffPercent.toFixed(2)}%)`;
+}
+
+// Annotations only attach to repo-relative POSIX paths, while distPath may be
+// ".", absolute or Windows-style.
+function annotationPath(distPath: string, file: string): string {
+  const toPosix = (value: string) => value.replace(/\\/g, '/');
+  return toPosix(
+    path.relative(process.cwd(), path.resolve(toPosix(distPath), toPosix(file)))
+  );
+}
+
+function buildAnnotations(diff: DiffResult, distPath: string): Annotation[] {
+  // Build output is usually not committed, so these show up in the check's
+  // annotation list rather than inline on the diff.
+  const annotations: Annotation[] = diff.thresholdFiles.map((entry) => ({
+    path: annotationPath(distPath, entry.file),
+    start_line: 1,
+    end_line: 1,
+    annotation_level: entry.level === 'fail' ? 'failure' : 'warning',
+    title: `Size threshold ${entry.level === 'fail' ? 'exceeded' : 'warning'}`,
+    message: `${entry.file} grew +${formatFileDelta(entry.deltaBytes)} ${entry.metric} (${entry.deltaPercent === null ? 'new file' : `+${entry.deltaPercent.toFixed(1)}%`})`,
+  }));
+
+  // The target is the rule's glob, so every file it matches is annotated,
+  // once per rule even when the rule has both a max and an increase limit.
+  const byRule = new Map<number | undefined, BudgetViolation[]>();
+  for (const violation of diff.budgetViolations) {
+    if (violation.scope !== 'files') continue;
+    byRule.set(violation.rule, [
+      ...(byRule.get(violation.rule) ?? []),
+      violation,
+    ]);
+  }
+  for (const violations of byRule.values()) {
+    const message = violations.map((v) => v.message).join('\n');
+    for (const file of diff.current.files) {
+      if (!matchesGlob(file.path, violations[0].target)) continue;
+      annotations.push({
+        path: annotationPath(distPath, file.path),
+        start_line: 1,
+        end_line: 1,
+        annotation_level: 'failure',
+        title: 'Budget rule exceeded',
+        message,
+      });
+    }
+  }
+  for (const violation of diff.ceilingViolations) {
+    if (violation.scope !== 'file') continue;
+    annotations.push({
+      path: annotationPath(distPath, violation.target),
+      start_line: 1,
+      end_line: 1,
+      annotation_level: 'failure',
+      title: 'Size ceiling exceeded',
+      message: violation.message,
+    });
+  }
+
+  return annotations;
+}
+
+export async function publishCheckRun(
+  token: string,
+  diff: DiffResult,
+  name: string,
+  headSha: string,
+  distPath: string
+): Promise<void> {
+  const octokit = github.getOctokit(token);
+  const title = checkTitle(diff);
+  let summary = buildCommentMarkdown(diff, MAX_SUMMARY_LENGTH);
+  if (summary.length > MAX_SUMMARY_LENGTH) {
+    summary = `${summary.slice(0, MAX_SUMMARY_LENGTH - 20)}\n\n…(truncated)`;
+  }
+  const annotations = buildAnnotations(diff, distPath);
+
+  try {
+    // The API accepts at most 50 annotations per request; later batches are
+    // appended with updates.
+    const { data: check } = await octokit.rest.checks.create({
+      ...github.context.repo,
+      name,
+      head_sha: headSha,
+      status: 'completed',
+      conclusion: checkConclusion(diff),
+      output: {
+        title,
+        summary,
+        annotations: annotations.slice(0, MAX_ANNOTATIONS_PER_REQUEST),
+      },
+    });
+    for (
+      let offset = MAX_ANNOTATIONS_PER_REQUEST;
+      offset < annotations.length;
+      offset += MAX_ANNOTATIONS_PER_REQUEST
+    ) {
+      await octokit.rest.checks.update({
+        ...github.context.repo,
+        check_run_id: check.id,
+        output: {
+          title,
+          summary,
+          annotations: annotations.slice(
+            offset,
+            offset + MAX_ANNOTATIONS_PER_REQUEST
+          ),
+        },
+      });
+    }
+    core.info(
+      `Published check run "${name}" (${checkConclusion(diff)}, ${annotations.length} annotations)`
+    );
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(
+      `Failed to publish check run (needs checks: write): ${message}`
+    );
+  }
+}
@@ -0,0 +1,417 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { execFileSync } from 'child_process';
+import { parseArgs } from 'util';
+import { BundleStats, CompareMetric, DiffResult } from './types';
+import { scanDirectory } from './scan';
+import { diffBundles } from './compare';
+import { loadRepoConfig } from './config';
+import { buildCommentMarkdown } from './report';
+import { REPORT_VERSION, buildJsonReport, buildJUnitReport } from './export';
+import { loadChunkGraph } from './metadata';
+import { parseAssetFilter } from './utils';
+import { appendHistory } from './history';
+import { parseBundleStats } from './schema';
+
+const USAGE = `Usage: build-size-diff <command> [options]
+
+Commands:
+  scan <dir>                  Scan a build output directory
+    -o, --output <file>       Write stats JSON to file (default: stdout)
+    --no-gzip, --no-brotli    Skip compressed size calculation
+    --commit <sha>            Commit to record (default: git HEAD)
+    --source-maps             Attribute bytes to source modules via .map files
+    --metadata <file>         webpack stats.json, esbuild metafile or Vite manifest
+    --categories <list>       Asset categories to scan (default: scripts,styles)
+    --include <glob>          Always scan matching files (repeatable)
+    --exclude <glob>          Never scan matching files (repeatable)
+    --previous <file>         Carry size history forward from a previous scan
+    --history-size <n>        Builds to keep in history (default: 30)
+
+  compare <base.json> <head.json>
+                              Diff two stats files; exits 1 on failure
+    -o, --output <file>       Write diff JSON to file (default: stdout)
+    --metric <name>           brotli | gzip | size (default: brotli)
+    --budget-kb <n>           Max allowed total increase
+    --warn-kb <n>             Warn if any file grows more than this
+    --fail-kb <n>             Fail if any file grows more than this
+    --budget-percent <n>      Max allowed total increase in percent
+    --warn-percent <n>        Warn if any existing file grows more than n% (and 1 KB)
+    --fail-percent <n>        Fail if any existing file grows more than n% (and 1 KB)
+    --max-total-kb <n>        Fail if the total exceeds n KB
+    --max-file-kb <n>         Fail if any file exceeds n KB
+    --top-changes-limit <n>   Files listed under Top Changes (default: 5)
+    --hash-pattern <regex>    Extra pattern stripped from paths
+    --config <file>           Config file with per-glob budgets
+
+  report <diff.json>          Render a diff produced by compare
+    --format <md|json|junit>  Output format (default: md)
+    --config <file>           Config file, lists passing glob budgets in JUnit
+    -o, --output <file>       Write report to file (default: stdout)
+`;
+
+function fail(message: string): never {
+  process.stderr.write(`build-size-diff: ${message}\n`);
+  process.exit(2);
+}
+
+function writeOutput(content: string, outputPath: string | undefined): void {
+  if (outputPath) {
+    fs.writeFileSync(outputPath, content);
+  } else {
+    process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+  }
+}
+
+function readJson<T>(filePath: string): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    return fail(`Cannot read ${filePath}: ${message}`);
+  }
+}
+
+function readStats(filePath: string): BundleStats {
+  try {
+    return parseBundleStats(readJson<unknown>(filePath));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    return fail(`${filePath} is not valid bundle stats: ${message}`);
+  }
+}
+
+function parsePositiveInteger(
+  value: string | undefined,
+  flag: string
+): number | null {
+  if (value === undefined) return null;
+  if (!/^\d+$/.test(value) || Number(value) === 0) {
+    fail(`${flag} must be a positive integer`);
+  }
+  return Number(value);
+}
+
+const REPORT_STATUSES = [
+  'pass',
+  'fail',
+  'no-baseline',
+  'stale-baseline',
+  'baseline-updated',
+];
+const REPORT_NUMBERS = [
+  'diffSize',
+  'diffGzip',
+  'diffBrotli',
+  'diffMetric',
+  'diffPercent',
+  'diffPercentSize',
+  'diffPercentGzip',
+  'diffPercentBrotli',
+];
+const REPORT_ARRAYS = [
+  'topChanges',
+  'fileChanges',
+  'moduleChanges',
+  'routes',
+  'categoryChanges',
+  'metricChecks',
+  'thresholdFiles',
+  'budgetViolations',
+  'ceilingViolations',
+];
+
+// Reports are read back from disk, so their shape is checked before anything
+// is rendered from them.
+function readReport(filePath: string): DiffResult {
+  const raw = readJson<unknown>(filePath);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return fail(`${filePath} is not a report: expected a JSON object`);
+  }
+  const report = raw as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (
+    typeof report.reportVersion !== 'number' ||
+    report.reportVersion > REPORT_VERSION
+  ) {
+    problems.push(
+      `reportVersion: expected a number up to ${REPORT_VERSION}, got ${JSON.stringify(report.reportVersion)}`
+    );
+  }
+  if (!REPORT_STATUSES.includes(report.status as string)) {
+    problems.push(`status: unknown status ${JSON.stringify(report.status)}`);
+  }
+  if (!['size', 'gzip', 'brotli'].includes(report.compareMetric as string)) {
+    problems.push('compareMetric: expected size, gzip or brotli');
+  }
+  for (const key of REPORT_NUMBERS) {
+    if (typeof report[key] !== 'number') {
+      problems.push(`${key}: expected a number`);
+    }
+  }
+  for (const key of REPORT_ARRAYS) {
+    if (!Array.isArray(report[key])) problems.push(`${key}: expected an array`);
+  }
+  for (const key of ['topChanges', 'fileChanges']) {
+    const changes = report[key];
+    if (!Array.isArray(changes)) continue;
+    changes.forEach((change: unknown, index) => {
+      const c = change as Record<string, unknown> | null;
+      if (
+        !c ||
+        typeof c.file !== 'string' ||
+        ['before', 'after', 'diff'].some((k) => typeof c[k] !== 'number')
+      ) {
+        problems.push(`${key}[${index}]: expected a file change`);
+      }
+    });
+  }
+
+  let current: BundleStats | null = null;
+  let baseline: BundleStats | null = null;
+  try {
+    current = parseBundleStats(report.current);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    problems.push(`current: ${message}`);
+  }
+  try {
+    baseline =
+      report.baseline === null ? null : parseBundleStats(report.baseline);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    problems.push(`baseline: ${message}`);
+  }
+
+  if (problems.length > 0) {
+    const more = problems.length > 5 ? `; and ${problems.length - 5} more` : '';
+    return fail(
+      `${filePath} is not a valid report: ${problems.slice(0, 5).join('; ')}${more}`
+    );
+  }
+  return { ...report, current, baseline } as unknown as DiffResult;
+}
+
+function parseLimit(value: string | undefined, flag: string): number | null {
+  if (value === undefined) return null;
+  const parsed = parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    fail(`${flag} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+function detectCommit(): string {
+  const fromEnv =
+    process.env.GITHUB_SHA ||
+    process.env.CI_COMMIT_SHA ||
+    process.env.GIT_COMMIT ||
+    process.env.BUILDKITE_COMMIT;
+  if (fromEnv) return fromEnv;
+  try {
+    return execFileSync('git', ['rev-parse', 'HEAD'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+  } catch {
+    return 'unknown';
+  }
+}
+
+async function runScan(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      'no-gzip': { type: 'boolean' },
+      'no-brotli': { type: 'boolean' },
+      commit: { type: 'string' },
+      'source-maps': { type: 'boolean' },
+      metadata: { type: 'string' },
+      categories: { type: 'string' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      previous: { type: 'string' },
+      'history-size': { type: 'string' },
+    },
+  });
+  if (positionals.length !== 1) fail('scan expects exactly one directory');
+
+  const stats = await scanDirectory(positionals[0], {
+    useGzip: !values['no-gzip'],
+    useBrotli: !values['no-brotli'],
+    commit: values.commit || detectCommit(),
+    sourceMaps: values['source-maps'] ?? false,
+    assetFilter: parseAssetFilter(
+      values.categories ?? '',
+      (values.include ?? []).join(','),
+      (values.exclude ?? []).join(',')
+    ),
+  });
+  if (values.previous) {
+    const historySize = parseInt(values['history-size'] ?? '30', 10);
+    if (isNaN(historySize) || historySize <= 0) {
+      fail('--history-size must be a positive integer');
+    }
+    stats.history = appendHistory(
+      readStats(values.previous),
+      stats,
+      historySize
+    );
+  }
+  if (values.metadata) {
+    stats.chunkGraph = loadChunkGraph(values.metadata, positionals[0]);
+  }
+  writeOutput(JSON.stringify(stats, null, 2), values.output);
+  return 0;
+}
+
+function runCompare(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      metric: { type: 'string' },
+      'budget-kb': { type: 'string' },
+      'warn-kb': { type: 'string' },
+      'fail-kb': { type: 'string' },
+      'budget-percent': { type: 'string' },
+      'warn-percent': { type: 'string' },
+      'fail-percent': { type: 'string' },
+      'max-total-kb': { type: 'string' },
+      'max-file-kb': { type: 'string' },
+      'top-changes-limit': { type: 'string' },
+      'hash-pattern': { type: 'string' },
+      config: { type: 'string' },
+    },
+  });
+  if (positionals.length !== 2) {
+    fail('compare expects <base.json> <head.json>');
+  }
+
+  const metric = (values.metric ?? 'brotli') as CompareMetric;
+  if (!['brotli', 'gzip', 'size'].includes(metric)) {
+    fail('--metric must be: brotli, gzip, or size');
+  }
+
+  let hashPattern: RegExp | null = null;
+  if (values['hash-pattern']) {
+    try {
+      hashPattern = new RegExp(values['hash-pattern'], 'g');
+    } catch {
+      fail('--hash-pattern must be a valid regular expression');
+    }
+  }
+
+  const config = loadRepoConfig(values.config);
+  const baseline = readStats(positionals[0]);
+  const current = readStats(positionals[1]);
+
+  const diff = diffBundles(baseline, current, {
+    budgetKb:
+      parseLimit(values['budget-kb'], '--budget-kb') ??
+      config?.budgetMaxIncreaseKb ??
+      null,
+    warnKb:
+      parseLimit(values['warn-kb'], '--warn-kb') ?? config?.warnAboveKb ?? null,
+    failKb:
+      parseLimit(values['fail-kb'], '--fail-kb') ?? config?.failAboveKb ?? null,
+    budgetPercent:
+      parseLimit(values['budget-percent'], '--budget-percent') ??
+      config?.budgetMaxIncreasePercent ??
+      null,
+    warnPercent:
+      parseLimit(values['warn-percent'], '--warn-percent') ??
+      config?.warnAbovePercent ??
+      null,
+    failPercent:
+      parseLimit(values['fail-percent'], '--fail-percent') ??
+      config?.failAbovePercent ??
+      null,
+    maxTotalKb:
+      parseLimit(values['max-total-kb'], '--max-total-kb') ??
+      config?.maxTotalKb ??
+      null,
+    maxFileKb:
+      parseLimit(values['max-file-kb'], '--max-file-kb') ??
+      config?.maxFileKb ??
+      null,
+    useGzip: metric !== 'size',
+    useBrotli: metric === 'brotli',
+    hashPattern,
+    budgetRules: config?.budgets ?? [],
+    routeBudgets: config?.routes ?? [],
+    metricLimits: config?.metrics,
+    topChangesLimit:
+      parsePositiveInteger(
+        values['top-changes-limit'],
+        '--top-changes-limit'
+      ) ?? undefined,
+  });
+
+  writeOutput(buildJsonReport(diff), values.output);
+  process.stderr.write(`Status: ${diff.status}\n`);
+  return diff.status === 'fail' ? 1 : 0;
+}
+
+function runReport(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string' },
+      config: { type: 'string' },
+    },
+  });
+  if (positionals.length !== 1) fail('report expects <diff.json>');
+
+  const format = values.format ?? 'md';
+  if (!['md', 'json', 'junit'].includes(format)) {
+    fail('--format must be: md, json, or junit');
+  }
+
+  const diff = readReport(positionals[0]);
+  let content: string;
+  if (format === 'md') {
+    content = buildCommentMarkdown(diff);
+  } else if (format === 'junit') {
+    const config = loadRepoConfig(values.config);
+    content = buildJUnitReport(diff, config?.budgets ?? []);
+  } else {
+    content = buildJsonReport(diff);
+  }
+  writeOutput(content, values.output);
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  switch (command) {
+    case 'scan':
+      return runScan(args);
+    case 'compare':
+      return runCompare(args);
+    case 'report':
+      return runReport(args);
+    case undefined:
+    case '-h':
+    case '--help':
+      process.stdout.write(USAGE);
+      return command ? 0 : 2;
+    default:
+      return fail(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    fail(message);
+  }
+);
@@ -1,78 +1,54 @@
 import * as github from '@actions/github';
 import * as core from '@actions/core';
-import { DiffResult, BundleStats } from './types';
+import {
+  DiffResult,
+  BundleStats,
+  BudgetViolation,
+  CompareMetric,
+  FileChange,
+} from './types';
 import { formatBytes } from './scan';
+import { buildTrendMarkdown, historyEntry } from './history';
+import {
+  buildChangedFilesMarkdown,
+  buildCommentMarkdown,
+  buildVariantsCommentMarkdown,
+  calculateDiffMetrics,
+  formatPercent,
+} from './report';
 
 const COMMENT_MARKER = '<!-- build-size-diff -->';
+// Job summaries are capped at 1 MiB per step; leave room for the tables.
+const JOB_SUMMARY_FILE_LIST_LENGTH = 512 * 1024;
 
-interface DiffMetrics {
-  diffSize: number;
-  diffGzip: number;
-  diffBrotli: number;
-  diffPercentSize: number;
-  diffPercentGzip: number;
-  diffPercentBrotli: number;
-  sizeEmoji: string;
-  gzipEmoji: string;
-  brotliEmoji: string;
-}
-
-function getChangeEmoji(value: number): string {
-  if (value > 0) return '🔴 ↑';
-  if (value < 0) return '🟢 ↓';
-  return '➖';
-}
-
-function formatPercent(value: number): string {
-  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
-}
-
-function calculateDiffMetrics(
-  current: BundleStats,
-  baseline: BundleStats
-): DiffMetrics {
-  const diffSize = current.totalSize - baseline.totalSize;
-  const diffGzip = current.totalGzip - baseline.totalGzip;
-  const diffBrotli = current.totalBrotli - baseline.totalBrotli;
-  const diffPercentSize =
-    baseline.totalSize > 0 ? (diffSize / baseline.totalSize) * 100 : 0;
-  const diffPercentGzip =
-    baseline.totalGzip > 0 ? (diffGzip / baseline.totalGzip) * 100 : 0;
-  const diffPercentBrotli =
-    baseline.totalBrotli > 0 ? (diffBrotli / baseline.totalBrotli) * 100 : 0;
-
-  return {
-    diffSize,
-    diffGzip,
-    diffBrotli,
-    diffPercentSize,
-    diffPercentGzip,
-    diffPercentBrotli,
-    sizeEmoji: getChangeEmoji(diffSize),
-    gzipEmoji: getChangeEmoji(diffGzip),
-    brotliEmoji: getChangeEmoji(diffBrotli),
-  };
-}
-
+// Several diffs are build variants and share one comment.
 export async function updatePRComment(
   token: string,
-  diff: DiffResult,
+  diffs: DiffResult[],
   mode: 'always' | 'on-increase' | 'never',
-  failOnError: boolean
+  failOnError: boolean,
+  prNumber: number | undefined = github.context.payload.pull_request?.number
 ): Promise<void> {
   if (mode === 'never') return;
-  if (mode === 'on-increase' && diff.diffMetric <= 0) return;
+  if (
+    mode === 'on-increase' &&
+    diffs.every((diff) => diff.diffMetric <= 0 && diff.status !== 'fail')
+  ) {
+    return;
+  }
 
   const octokit = github.getOctokit(token);
   const context = github.context;
 
-  if (!context.payload.pull_request) {
+  if (prNumber === undefined) {
     core.info('Not a PR, skipping comment');
     return;
   }
 
-  const prNumber = context.payload.pull_request.number;
-  const body = buildCommentMarkdown(diff);
+  const markdown = diffs.some((diff) => diff.variant)
+    ? buildVariantsCommentMarkdown(diffs)
+    : buildCommentMarkdown(diffs[0]);
+  const body = `${COMMENT_MARKER}\n${markdown}`;
 
   const existingComment = await findOurComment(octokit, context, prNumber);
 
@@ -131,94 +107,38 @@ async function findOurComment(
   }
 }
 
-function buildCommentMarkdown(diff: DiffResult): string {
-  const statusEmoji = {
-    pass: '✅ PASS',
-    fail: '❌ FAIL',
-    'no-baseline': 'ℹ️ NO BASELINE',
-    'baseline-updated': '✅ UPDATED',
-  }[diff.status];
-
-  const diffSizeEmoji = getChangeEmoji(diff.diffSize);
-  const diffEmoji = getChangeEmoji(diff.diffGzip);
-  const diffBrotliEmoji = getChangeEmoji(diff.diffBrotli);
-
-  let body = `${COMMENT_MARKER}
-## Bundle Size Report ${statusEmoji}
-
-| Metric | Size | Gzip | Brotli |
-|--------|------|------|--------|
-| **Total** | ${formatBytes(diff.current.totalSize)} | ${formatBytes(diff.current.totalGzip)} | ${formatBytes(diff.current.totalBrotli)} |
-| **Diff** | ${diff.diffSize >= 0 ? '+' : ''}${formatBytes(diff.diffSize)} ${diffSizeEmoji} | ${diff.diffGzip >= 0 ? '+' : ''}${formatBytes(diff.diffGzip)} ${diffEmoji} | ${diff.diffBrotli >= 0 ? '+' : ''}${formatBytes(diff.diffBrotli)} ${diffBrotliEmoji} |
-| **Change** | ${formatPercent(diff.diffPercentSize)} | ${formatPercent(diff.diffPercentGzip)} | ${formatPercent(diff.diffPercentBrotli)} |`;
-
-  if (diff.budgetMaxIncreaseKb !== null) {
-    const budgetBytes = diff.budgetMaxIncreaseKb * 1024;
-    const budgetEmoji = diff.diffMetric > budgetBytes ? '❌' : '✅';
-    const sizeCell =
-      diff.compareMetric === 'size'
-        ? `${formatBytes(budgetBytes)} ${budgetEmoji}`
-        : '-';
-    const gzipCell =
-      diff.compareMetric === 'gzip'
-        ? `${formatBytes(budgetBytes)} ${budgetEmoji}`
-        : '-';
-    const brotliCell =
-      diff.compareMetric === 'brotli'
-        ? `${formatBytes(budgetBytes)} ${budgetEmoji}`
-        : '-';
-    body += `\n| **Budget Limit** | ${sizeCell} | ${gzipCell} | ${brotliCell} |`;
-  }
-
-  body += '\n';
-
-  if (diff.topChanges.length > 0) {
-    body += `
-### Top Changes
-
-| File | Before | After | Diff |
-|------|--------|-------|------|
-`;
-    for (const change of diff.topChanges) {
-      const changeMarker =
-        change.before === 0 && change.after > 0
-          ? '+'
-          : change.after === 0 && change.before > 0
-            ? '-'
-            : '~';
-      const changeEmoji = getChangeEmoji(change.diff);
-      body += `| \`${changeMarker} ${change.file}\` | ${formatBytes(change.before)} | ${formatBytes(change.after)} | ${change.diff >= 0 ? '+' : ''}${formatBytes(change.diff)} ${changeEmoji} |\n`;
-    }
-  }
-
-  if (diff.thresholdMessage) {
-    const label = diff.thresholdStatus === 'fail' ? '❌ FAIL' : '⚠️ WARN';
-    body += `\n> ${label} **Threshold:** ${diff.thresholdMessage}\n`;
-  }
-
-  if (diff.status === 'fail' && !diff.thresholdMessage) {
-    body += `\n> ⚠️ WARN **Budget exceeded!** Bundle size increased more than the allowed limit.\n`;
-  }
-
-  if (diff.status === 'no-baseline') {
-    body += `\n> ℹ️ INFO **No baseline found.** Push to main branch first to create a baseline. Future PRs will show comparisons.\n`;
-  }
-
-  body += `\n<sub>Generated by build-size-diff Commit: ${diff.current.commit.slice(0, 7)}</sub>`;
-
-  return body;
+// List items are rendered as HTML, and messages name files from the build.
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
 }
 
 export async function writeJobSummary(
   current: BundleStats,
-  baseline: BundleStats | null
+  baseline: BundleStats | null,
+  violations: BudgetViolation[] = [],
+  metric: CompareMetric = 'brotli',
+  treemapUrl: string | null = null,
+  fileChanges: FileChange[] = [],
+  variant: string | null = null,
+  // Set for pull requests; default-branch builds save the baseline instead.
+  diff: DiffResult | null = null
 ): Promise<void> {
   const summary = core.summary;
 
-  summary.addHeading('Bundle Size Report', 2);
+  summary.addHeading(
+    variant ? `Bundle Size Report: ${variant}` : 'Bundle Size Report',
+    2
+  );
 
   if (!baseline) {
-    summary.addRaw(`Baseline created for commit ${current.commit.slice(0, 7)}`);
+    summary.addRaw(
+      diff
+        ? 'No baseline found. Push to main branch first to create a baseline.'
+        : `Baseline created for commit ${current.commit.slice(0, 7)}`
+    );
     summary.addTable([
       [
         { data: 'Metric', header: true },
@@ -274,6 +194,43 @@ export async function writeJobSummary(
     ]);
   }
 
+  const trend = current.history
+    ? buildTrendMarkdown(current.history, metric)
+    : baseline?.history
+      ? buildTrendMarkdown(baseline.history, metric, historyEntry(current))
+      : '';
+  if (trend) {
+    summary.addRaw(trend, true);
+  }
+
+  const messages = violations.map((v) => `❌ ${escapeHtml(v.message)}`);
+  if (diff?.thresholdMessage) {
+    const label = diff.thresholdStatus === 'fail' ? '❌' : '⚠️';
+    messages.push(`${label} Threshold: ${escapeHtml(diff.thresholdMessage)}`);
+  }
+  if (diff?.budgetMessage) {
+    messages.push(`❌ Budget exceeded: ${escapeHtml(diff.budgetMessage)}`);
+  }
+  if (messages.length > 0) {
+    summary.addHeading('Budget Violations', 3);
+    summary.addList(messages);
+  }
+
+  if (fileChanges.length > 0) {
+    summary.addRaw(
+      buildChangedFilesMarkdown(
+        fileChanges,
+        JOB_SUMMARY_FILE_LIST_LENGTH,
+        'Set report-path to write the full list to a file.'
+      ),
+      true
+    );
+  }
+
+  if (treemapUrl) {
+    summary.addLink('📊 Interactive treemap', treemapUrl);
+  }
+
   await summary.write();
   core.info('Job summary written');
 }
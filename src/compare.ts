@@ -1,25 +1,595 @@
-import { BundleStats, DiffResult } from './types';
+import {
+  BudgetRule,
+  BudgetViolation,
+  BundleStats,
+  CategoryChange,
+  ChunkGraph,
+  CompareMetric,
+  DiffOptions,
+  DiffResult,
+  FileChange,
+  FileStats,
+  LoadSplit,
+  MetricCheck,
+  MetricLimits,
+  ModuleChange,
+  NondeterministicSummary,
+} from './types';
+import { ASSET_CATEGORIES, matchesGlob, normalizeHashedPath } from './utils';
+import { formatBytes, summarizeCategories } from './scan';
+import { moduleGroupFor } from './sourcemap';
+import { analyzeChunkGraph } from './metadata';
+import { diffRoutes } from './routes';
+import { estimateSimilarity } from './fingerprint';
 
-export function diffBundles(
+export interface FilePair {
+  base: FileStats | null;
+  current: FileStats | null;
+  // Content similarity of a pair matched across different names.
+  similarity?: number;
+}
+
+// Minimum estimated similarity for a removed and an added file to be
+// reported as one renamed or moved file.
+const RENAME_SIMILARITY = 0.5;
+
+function extensionOf(file: FileStats): string {
+  const dot = file.name.lastIndexOf('.');
+  return dot === -1 ? '' : file.name.slice(dot).toLowerCase();
+}
+
+function pairRenames(removed: FileStats[], added: FileStats[]): FilePair[] {
+  const candidates: Array<{
+    base: FileStats;
+    current: FileStats;
+    similarity: number;
+  }> = [];
+  for (const base of removed) {
+    if (!base.fingerprint) continue;
+    for (const current of added) {
+      if (!current.fingerprint) continue;
+      if (extensionOf(base) !== extensionOf(current)) continue;
+      const similarity = estimateSimilarity(
+        base.fingerprint,
+        current.fingerprint
+      );
+      if (similarity >= RENAME_SIMILARITY) {
+        candidates.push({ base, current, similarity });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.similarity - a.similarity);
+
+  const pairs: FilePair[] = [];
+  const usedBase = new Set<FileStats>();
+  const usedCurrent = new Set<FileStats>();
+  for (const candidate of candidates) {
+    if (usedBase.has(candidate.base) || usedCurrent.has(candidate.current)) {
+      continue;
+    }
+    usedBase.add(candidate.base);
+    usedCurrent.add(candidate.current);
+    pairs.push(candidate);
+  }
+  for (const base of removed) {
+    if (!usedBase.has(base)) pairs.push({ base, current: null });
+  }
+  for (const current of added) {
+    if (!usedCurrent.has(current)) pairs.push({ base: null, current });
+  }
+  return pairs;
+}
+
+export function pairFiles(
+  baselineFiles: FileStats[],
+  currentFiles: FileStats[],
+  hashPattern: RegExp | null,
+  metricOf: (file: FileStats) => number
+): FilePair[] {
+  const pairs: FilePair[] = [];
+  const baselineMap = new Map(baselineFiles.map((f) => [f.path, f]));
+  const unmatchedCurrent: FileStats[] = [];
+
+  for (const file of currentFiles) {
+    const baseFile = baselineMap.get(file.path);
+    if (baseFile) {
+      pairs.push({ base: baseFile, current: file });
+      baselineMap.delete(file.path);
+    } else {
+      unmatchedCurrent.push(file);
+    }
+  }
+
+  const groups = new Map<string, { base: FileStats[]; current: FileStats[] }>();
+  const groupFor = (file: FileStats) => {
+    const key = normalizeHashedPath(file.path, hashPattern);
+    let group = groups.get(key);
+    if (!group) {
+      group = { base: [], current: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+  for (const file of baselineMap.values()) groupFor(file).base.push(file);
+  for (const file of unmatchedCurrent) groupFor(file).current.push(file);
+
+  const removed: FileStats[] = [];
+  const added: FileStats[] = [];
+  for (const group of groups.values()) {
+    // Several files can collapse to the same normalized name (e.g. multiple
+    // hashed "index" chunks); pair the closest sizes first.
+    const candidates: Array<{ base: FileStats; current: FileStats }> = [];
+    for (const base of group.base) {
+      for (const current of group.current) {
+        candidates.push({ base, current });
+      }
+    }
+    candidates.sort(
+      (a, b) =>
+        Math.abs(metricOf(a.current) - metricOf(a.base)) -
+        Math.abs(metricOf(b.current) - metricOf(b.base))
+    );
+
+    const usedBase = new Set<FileStats>();
+    const usedCurrent = new Set<FileStats>();
+    for (const candidate of candidates) {
+      if (usedBase.has(candidate.base) || usedCurrent.has(candidate.current)) {
+        continue;
+      }
+      usedBase.add(candidate.base);
+      usedCurrent.add(candidate.current);
+      pairs.push(candidate);
+    }
+
+    removed.push(...group.base.filter((base) => !usedBase.has(base)));
+    added.push(...group.current.filter((current) => !usedCurrent.has(current)));
+  }
+
+  // Whatever is left may still be a file that moved or was renamed.
+  pairs.push(...pairRenames(removed, added));
+  return pairs;
+}
+
+function formatRelative(percent: number): string {
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+// Sub-KB deltas would otherwise read "+0 KB".
+export function formatFileDelta(bytes: number): string {
+  return bytes < 1024
+    ? `${bytes} B`
+    : `${Math.round((bytes / 1024) * 10) / 10} KB`;
+}
+
+// Percent thresholds ignore smaller increases, so tiny files cannot flap.
+const MIN_PERCENT_DELTA_BYTES = 1024;
+
+function formatLimits(kb: number | null, percent: number | null): string {
+  const parts: string[] = [];
+  if (kb !== null) parts.push(`${kb} KB`);
+  if (percent !== null) parts.push(`${percent}%`);
+  return parts.length > 0 ? parts.join(' or ') : '-';
+}
+
+export function resolveCompareMetric(
+  useGzip: boolean,
+  useBrotli: boolean
+): CompareMetric {
+  return useBrotli ? 'brotli' : useGzip ? 'gzip' : 'size';
+}
+
+const METRICS: CompareMetric[] = ['size', 'gzip', 'brotli'];
+
+function totalOf(stats: BundleStats, metric: CompareMetric): number {
+  if (metric === 'brotli') return stats.totalBrotli;
+  if (metric === 'gzip') return stats.totalGzip;
+  return stats.totalSize;
+}
+
+function limitsFor(
+  options: DiffOptions,
+  metric: CompareMetric,
+  compareMetric: CompareMetric
+): MetricLimits {
+  const override = options.metricLimits?.[metric];
+  const pick = (key: keyof MetricLimits): number | null =>
+    override?.[key] ?? (metric === compareMetric ? options[key] : null);
+  return {
+    budgetKb: pick('budgetKb'),
+    budgetPercent: pick('budgetPercent'),
+    warnKb: pick('warnKb'),
+    warnPercent: pick('warnPercent'),
+    failKb: pick('failKb'),
+    failPercent: pick('failPercent'),
+    maxTotalKb: pick('maxTotalKb'),
+    maxFileKb: pick('maxFileKb'),
+  };
+}
+
+// Only metrics that were measured and have at least one limit are checked.
+function resolveMetricChecks(
+  options: DiffOptions,
+  compareMetric: CompareMetric
+): MetricCheck[] {
+  return METRICS.filter(
+    (metric) =>
+      metric === 'size' ||
+      (metric === 'gzip' && options.useGzip) ||
+      (metric === 'brotli' && options.useBrotli)
+  )
+    .map((metric) => ({
+      metric,
+      limits: limitsFor(options, metric, compareMetric),
+      budgetMessage: null,
+      thresholdStatus: 'ok' as const,
+      thresholdMessage: null,
+    }))
+    .filter((check) =>
+      Object.values(check.limits).some((limit) => limit !== null)
+    );
+}
+
+export function evaluateSizeCeilings(
+  current: BundleStats,
+  options: DiffOptions
+): BudgetViolation[] {
+  const compareMetric = resolveCompareMetric(
+    options.useGzip,
+    options.useBrotli
+  );
+  const violations: BudgetViolation[] = [];
+
+  for (const { metric, limits } of resolveMetricChecks(
+    options,
+    compareMetric
+  )) {
+    const total = totalOf(current, metric);
+    if (limits.maxTotalKb !== null && total > limits.maxTotalKb * 1024) {
+      violations.push({
+        target: 'total',
+        scope: 'total',
+        metric,
+        kind: 'max',
+        actual: total,
+        limit: limits.maxTotalKb * 1024,
+        message: `Total ${metric} is ${formatBytes(total)} (max ${limits.maxTotalKb} KB)`,
+      });
+    }
+    if (limits.maxFileKb === null) continue;
+    const maxFileBytes = limits.maxFileKb * 1024;
+    for (const file of current.files) {
+      if (file[metric] <= maxFileBytes) continue;
+      violations.push({
+        target: file.path,
+        scope: 'file',
+        metric,
+        kind: 'max',
+        actual: file[metric],
+        limit: maxFileBytes,
+        message: `${file.path} is ${formatBytes(file[metric])} ${metric} (max ${limits.maxFileKb} KB per file)`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+function evaluateMetricCheck(
+  check: MetricCheck,
+  baseline: BundleStats,
+  current: BundleStats,
+  pairs: FilePair[]
+): { check: MetricCheck; files: DiffResult['thresholdFiles'] } {
+  const { metric, limits } = check;
+  const files: DiffResult['thresholdFiles'] = [];
+
+  for (const pair of pairs) {
+    const before = pair.base ? pair.base[metric] : 0;
+    const after = pair.current ? pair.current[metric] : 0;
+    const diff = after - before;
+    if (diff <= 0) continue;
+    const deltaKb = Math.round((diff / 1024) * 10) / 10;
+    // New files have no meaningful percentage; only KB thresholds apply.
+    const deltaPercent = before > 0 ? (diff / before) * 100 : null;
+    const exceeds = (kb: number | null, percent: number | null) =>
+      (kb !== null && deltaKb >= kb) ||
+      (percent !== null &&
+        deltaPercent !== null &&
+        diff >= MIN_PERCENT_DELTA_BYTES &&
+        deltaPercent >= percent);
+    const level = exceeds(limits.failKb, limits.failPercent)
+      ? 'fail'
+      : exceeds(limits.warnKb, limits.warnPercent)
+        ? 'warn'
+        : null;
+    if (level) {
+      files.push({
+        metric,
+        file: pair.current?.path ?? pair.base?.path ?? '',
+        deltaBytes: diff,
+        deltaKb,
+        deltaPercent,
+        level,
+      });
+    }
+  }
+
+  const describeFile = (entry: DiffResult['thresholdFiles'][number]) =>
+    `${entry.file} +${formatFileDelta(entry.deltaBytes)} ${metric} (${entry.deltaPercent === null ? 'new file' : formatRelative(entry.deltaPercent)})`;
+  const failing = files.find((f) => f.level === 'fail');
+  const warning = files.find((f) => f.level === 'warn');
+  const failAt = formatLimits(limits.failKb, limits.failPercent);
+
+  let thresholdStatus: MetricCheck['thresholdStatus'] = 'ok';
+  let thresholdMessage: string | null = null;
+  if (failing) {
+    thresholdStatus = 'fail';
+    thresholdMessage = `${describeFile(failing)} (fail at ${failAt})`;
+  } else if (warning) {
+    thresholdStatus = 'warn';
+    thresholdMessage = `${describeFile(warning)} (warn at ${formatLimits(limits.warnKb, limits.warnPercent)} / fail at ${failAt})`;
+  }
+
+  const before = totalOf(baseline, metric);
+  const diff = totalOf(current, metric) - before;
+  const percent = before > 0 ? (diff / before) * 100 : 0;
+  // A zero-sized baseline gives no meaningful percentage.
+  const budgetExceeded =
+    (limits.budgetKb !== null && diff > limits.budgetKb * 1024) ||
+    (limits.budgetPercent !== null &&
+      before > 0 &&
+      percent > limits.budgetPercent);
+  const budgetMessage = budgetExceeded
+    ? `Total ${metric} grew +${formatBytes(diff)} (${formatRelative(percent)}), budget ${formatLimits(limits.budgetKb, limits.budgetPercent)}`
+    : null;
+
+  return {
+    check: { metric, limits, budgetMessage, thresholdStatus, thresholdMessage },
+    files,
+  };
+}
+
+export function evaluateBudgetRules(
+  rules: BudgetRule[],
   baseline: BundleStats | null,
   current: BundleStats,
-  budgetKb: number | null,
-  warnKb: number | null = null,
-  failKb: number | null = null,
-  useGzip: boolean = true,
-  useBrotli: boolean = true
-): DiffResult {
-  const compareMetric: DiffResult['compareMetric'] = useBrotli
-    ? 'brotli'
-    : useGzip
-      ? 'gzip'
-      : 'size';
-
-  const extractMetric = (stats: BundleStats): number => {
-    if (compareMetric === 'brotli') return stats.totalBrotli;
-    if (compareMetric === 'gzip') return stats.totalGzip;
-    return stats.totalSize;
+  defaultMetric: CompareMetric
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+
+  rules.forEach((rule, index) => {
+    const metric = rule.metric ?? defaultMetric;
+    const sumMatching = (stats: BundleStats): number =>
+      stats.files
+        .filter((f) => matchesGlob(f.path, rule.files))
+        .reduce((sum, f) => sum + f[metric], 0);
+
+    const after = sumMatching(current);
+
+    if (rule.maxKb !== null && after > rule.maxKb * 1024) {
+      violations.push({
+        target: rule.files,
+        scope: 'files',
+        metric,
+        kind: 'max',
+        rule: index,
+        actual: after,
+        limit: rule.maxKb * 1024,
+        message: `${rule.files} is ${formatBytes(after)} ${metric} (max ${rule.maxKb} KB)`,
+      });
+    }
+
+    if (rule.maxIncreaseKb !== null && baseline) {
+      const increase = after - sumMatching(baseline);
+      if (increase > rule.maxIncreaseKb * 1024) {
+        violations.push({
+          target: rule.files,
+          scope: 'files',
+          metric,
+          kind: 'increase',
+          rule: index,
+          actual: increase,
+          limit: rule.maxIncreaseKb * 1024,
+          message: `${rule.files} grew +${formatBytes(increase)} ${metric} (max +${rule.maxIncreaseKb} KB)`,
+        });
+      }
+    }
+  });
+
+  return violations;
+}
+
+function aggregateModules(
+  stats: BundleStats
+): Map<string, { kind: ModuleChange['kind']; size: number }> {
+  const modules = new Map<
+    string,
+    { kind: ModuleChange['kind']; size: number }
+  >();
+  for (const file of stats.files) {
+    for (const source of file.sources ?? []) {
+      const group = moduleGroupFor(source.path);
+      const entry = modules.get(group.name);
+      if (entry) {
+        entry.size += source.size;
+      } else {
+        modules.set(group.name, { kind: group.kind, size: source.size });
+      }
+    }
+  }
+  return modules;
+}
+
+export function diffModules(
+  baseline: BundleStats,
+  current: BundleStats
+): ModuleChange[] {
+  const hasSources = (stats: BundleStats): boolean =>
+    stats.files.some((f) => f.sources && f.sources.length > 0);
+  // Without source maps on both sides every module would look new or removed.
+  if (!hasSources(baseline) || !hasSources(current)) return [];
+
+  const before = aggregateModules(baseline);
+  const after = aggregateModules(current);
+  const changes: ModuleChange[] = [];
+
+  for (const name of new Set([...before.keys(), ...after.keys()])) {
+    const beforeSize = before.get(name)?.size ?? 0;
+    const afterSize = after.get(name)?.size ?? 0;
+    const diff = afterSize - beforeSize;
+    if (diff === 0) continue;
+    changes.push({
+      name,
+      kind: after.get(name)?.kind ?? before.get(name)?.kind ?? 'directory',
+      before: beforeSize,
+      after: afterSize,
+      diff,
+    });
+  }
+
+  changes.sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
+  return changes.slice(0, 5);
+}
+
+// Files the chunk graph does not know (HTML, fonts, images, ...) are neither
+// initial nor lazy chunks and are counted as other.
+function splitInitialLazy(
+  stats: BundleStats,
+  graph: ChunkGraph,
+  metricOf: (file: FileStats) => number
+): { initial: number; lazy: number; other: number } {
+  const chunks = analyzeChunkGraph(graph);
+  const inGraph = new Set(graph.chunks.map((chunk) => chunk.file));
+  let initial = 0;
+  let lazy = 0;
+  let other = 0;
+  for (const file of stats.files) {
+    const normalized = file.path.replace(/\\/g, '/');
+    if (chunks.get(normalized)?.initial) {
+      initial += metricOf(file);
+    } else if (inGraph.has(normalized) || chunks.has(normalized)) {
+      lazy += metricOf(file);
+    } else {
+      other += metricOf(file);
+    }
+  }
+  return { initial, lazy, other };
+}
+
+function computeLoadSplit(
+  baseline: BundleStats | null,
+  current: BundleStats,
+  metricOf: (file: FileStats) => number
+): LoadSplit | null {
+  if (!current.chunkGraph) return null;
+  const after = splitInitialLazy(current, current.chunkGraph, metricOf);
+  const before = baseline?.chunkGraph
+    ? splitInitialLazy(baseline, baseline.chunkGraph, metricOf)
+    : null;
+  return {
+    initialBefore: before?.initial ?? null,
+    initialAfter: after.initial,
+    lazyBefore: before?.lazy ?? null,
+    lazyAfter: after.lazy,
+    otherBefore: before?.other ?? null,
+    otherAfter: after.other,
   };
+}
+
+function diffCategories(
+  baseline: BundleStats | null,
+  current: BundleStats
+): CategoryChange[] {
+  const after = current.categories ?? summarizeCategories(current.files);
+  const before = baseline
+    ? (baseline.categories ?? summarizeCategories(baseline.files))
+    : null;
+
+  const changes: CategoryChange[] = [];
+  for (const category of ASSET_CATEGORIES) {
+    const afterTotals = after[category];
+    const beforeTotals = before?.[category] ?? null;
+    if (!afterTotals && !beforeTotals) continue;
+    changes.push({
+      category,
+      before: before ? (beforeTotals ?? { size: 0, gzip: 0, brotli: 0 }) : null,
+      after: afterTotals ?? { size: 0, gzip: 0, brotli: 0 },
+    });
+  }
+  return changes;
+}
+
+function withoutFiles(stats: BundleStats, paths: Set<string>): BundleStats {
+  const files = stats.files.filter((f) => !paths.has(f.path));
+  return {
+    ...stats,
+    files,
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+    totalGzip: files.reduce((sum, f) => sum + f.gzip, 0),
+    totalBrotli: files.reduce((sum, f) => sum + f.brotli, 0),
+    categories: summarizeCategories(files),
+  };
+}
+
+// Drops non-deterministic files and the baseline files they pair with, so
+// their noise stays out of totals and gates.
+function excludeNondeterministic(
+  baseline: BundleStats | null,
+  current: BundleStats,
+  noisy: Set<string>,
+  hashPattern: RegExp | null
+): { baseline: BundleStats | null; current: BundleStats } {
+  if (!baseline) return { baseline, current: withoutFiles(current, noisy) };
+  const pairedBase = new Set<string>();
+  for (const pair of pairFiles(
+    baseline.files,
+    current.files,
+    hashPattern,
+    (f) => f.size
+  )) {
+    if (pair.base && pair.current && noisy.has(pair.current.path)) {
+      pairedBase.add(pair.base.path);
+    }
+  }
+  return {
+    baseline: withoutFiles(baseline, pairedBase),
+    current: withoutFiles(current, noisy),
+  };
+}
+
+export function diffBundles(
+  baselineStats: BundleStats | null,
+  currentStats: BundleStats,
+  options: DiffOptions
+): DiffResult {
+  const { useGzip, useBrotli, hashPattern, budgetRules, routeBudgets } =
+    options;
+  const noisy = new Set(currentStats.nondeterministicFiles ?? []);
+  const nondeterministic: NondeterministicSummary | null =
+    noisy.size > 0
+      ? {
+          files: Array.from(noisy),
+          excluded: options.nondeterministicMode === 'exclude',
+        }
+      : null;
+  const { baseline, current } = nondeterministic?.excluded
+    ? excludeNondeterministic(baselineStats, currentStats, noisy, hashPattern)
+    : { baseline: baselineStats, current: currentStats };
+  const compareMetric = resolveCompareMetric(useGzip, useBrotli);
+  const routeDiff = diffRoutes(baseline, current, routeBudgets, compareMetric);
+  const compareLimits = limitsFor(options, compareMetric, compareMetric);
+  const pendingChecks = resolveMetricChecks(options, compareMetric);
+  // Ceilings cap what ships, so noisy files still count towards them.
+  const ceilingViolations = evaluateSizeCeilings(currentStats, options);
+  const budgetViolations = [
+    ...evaluateBudgetRules(budgetRules, baseline, current, compareMetric),
+    ...routeDiff.violations,
+  ];
+  // maxKb budgets and ceilings are absolute, so they gate without a baseline.
+  const absoluteViolations = [
+    ...ceilingViolations,
+    ...budgetViolations.filter((v) => v.kind === 'max'),
+  ];
 
   const extractFileMetric = (file: BundleStats['files'][number]): number => {
     if (compareMetric === 'brotli') return file.brotli;
@@ -40,21 +610,40 @@ export function diffBundles(
       diffPercentBrotli: 0,
       diffPercentSize: 0,
       topChanges: [],
+      fileChanges: [],
+      moduleChanges: [],
+      loadSplit: computeLoadSplit(null, current, extractFileMetric),
+      routes: routeDiff.routes,
+      categoryChanges: diffCategories(null, current),
       compareMetric,
-      status: 'no-baseline',
+      status: absoluteViolations.length > 0 ? 'fail' : 'no-baseline',
       worstDeltaKb: 0,
       thresholdStatus: 'ok',
       thresholdMessage: null,
-      budgetMaxIncreaseKb: budgetKb,
-      warnAboveKb: warnKb,
-      failAboveKb: failKb,
+      budgetMaxIncreaseKb: compareLimits.budgetKb,
+      warnAboveKb: compareLimits.warnKb,
+      failAboveKb: compareLimits.failKb,
+      budgetMaxIncreasePercent: compareLimits.budgetPercent,
+      warnAbovePercent: compareLimits.warnPercent,
+      failAbovePercent: compareLimits.failPercent,
+      budgetMessage: null,
+      budgetViolations,
+      ceilingViolations,
+      metricChecks: pendingChecks,
+      thresholdFiles: [],
+      baselineSource: null,
+      baselineFreshness: null,
+      nondeterministic,
+      variant: options.variant ?? null,
+      treemapUrl: options.treemapUrl ?? null,
     };
   }
 
   const diffSize = current.totalSize - baseline.totalSize;
   const diffGzip = current.totalGzip - baseline.totalGzip;
   const diffBrotli = current.totalBrotli - baseline.totalBrotli;
-  const diffMetric = extractMetric(current) - extractMetric(baseline);
+  const diffMetric =
+    totalOf(current, compareMetric) - totalOf(baseline, compareMetric);
   const diffPercentGzip =
     baseline.totalGzip > 0 ? (diffGzip / baseline.totalGzip) * 100 : 0;
   const diffPercentBrotli =
@@ -62,61 +651,106 @@ export function diffBundles(
   const diffPercentSize =
     baseline.totalSize > 0 ? (diffSize / baseline.totalSize) * 100 : 0;
   const diffPercent =
-    extractMetric(baseline) > 0
-      ? (diffMetric / extractMetric(baseline)) * 100
+    totalOf(baseline, compareMetric) > 0
+      ? (diffMetric / totalOf(baseline, compareMetric)) * 100
       : 0;
 
-  const baselineMap = new Map(baseline.files.map((f) => [f.path, f]));
-  const currentPaths = new Set(current.files.map((f) => f.path));
-  const topChanges: DiffResult['topChanges'] = [];
+  const fileChanges: FileChange[] = [];
   let maxPositiveDiff = 0;
+  const currentChunks = current.chunkGraph
+    ? analyzeChunkGraph(current.chunkGraph)
+    : null;
+  const baselineChunks = baseline.chunkGraph
+    ? analyzeChunkGraph(baseline.chunkGraph)
+    : null;
+  const pairs = pairFiles(
+    baseline.files,
+    current.files,
+    hashPattern,
+    extractFileMetric
+  );
 
-  for (const file of current.files) {
-    const baseFile = baselineMap.get(file.path);
-    const before = baseFile ? extractFileMetric(baseFile) : 0;
-    const after = extractFileMetric(file);
+  for (const pair of pairs) {
+    const before = pair.base ? extractFileMetric(pair.base) : 0;
+    const after = pair.current ? extractFileMetric(pair.current) : 0;
     const diff = after - before;
+    const file = pair.current?.path ?? pair.base?.path ?? '';
 
-    if (diff !== 0) {
-      topChanges.push({ file: file.path, before, after, diff });
-    }
-    if (diff > maxPositiveDiff) {
-      maxPositiveDiff = diff;
+    // Renames are listed even when unchanged so the move stays visible.
+    if (diff !== 0 || pair.similarity !== undefined) {
+      const change: FileChange = {
+        file,
+        before,
+        after,
+        diff,
+      };
+      if (pair.base && pair.current && pair.base.path !== pair.current.path) {
+        change.previousFile = pair.base.path;
+      }
+      if (pair.similarity !== undefined) {
+        change.similarity = pair.similarity;
+      }
+      if (pair.current && noisy.has(pair.current.path)) {
+        change.nondeterministic = true;
+      }
+      const entries = pair.current
+        ? currentChunks?.get(pair.current.path.replace(/\\/g, '/'))?.entries
+        : pair.base
+          ? baselineChunks?.get(pair.base.path.replace(/\\/g, '/'))?.entries
+          : undefined;
+      if (entries && entries.length > 0) {
+        change.entries = entries;
+      }
+      fileChanges.push(change);
     }
+    if (diff > maxPositiveDiff) maxPositiveDiff = diff;
   }
 
-  for (const [filePath, baseFile] of baselineMap) {
-    if (!currentPaths.has(filePath)) {
-      topChanges.push({
-        file: filePath,
-        before: extractFileMetric(baseFile),
-        after: 0,
-        diff: -extractFileMetric(baseFile),
-      });
-    }
-  }
-
-  topChanges.sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
-  topChanges.splice(5);
+  fileChanges.sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
+  const topChanges = fileChanges.slice(0, options.topChangesLimit ?? 5);
 
   const worstDeltaKb = Math.round((maxPositiveDiff / 1024) * 10) / 10;
 
-  let thresholdStatus: DiffResult['thresholdStatus'] = 'ok';
-  let thresholdMessage: string | null = null;
+  const evaluated = pendingChecks.map((check) =>
+    evaluateMetricCheck(check, baseline, current, pairs)
+  );
+  const metricChecks = evaluated.map((result) => result.check);
+  const thresholdFiles = evaluated.flatMap((result) => result.files);
 
-  if (failKb !== null && worstDeltaKb >= failKb) {
-    thresholdStatus = 'fail';
-    thresholdMessage = `Largest file +${worstDeltaKb} KB (fail at ${failKb} KB)`;
-  } else if (warnKb !== null && worstDeltaKb >= warnKb) {
-    thresholdStatus = 'warn';
-    thresholdMessage = `Largest file +${worstDeltaKb} KB (warn at ${warnKb} KB / fail at ${failKb ?? '-'} KB)`;
-  }
+  const thresholdStatus: DiffResult['thresholdStatus'] = metricChecks.some(
+    (check) => check.thresholdStatus === 'fail'
+  )
+    ? 'fail'
+    : metricChecks.some((check) => check.thresholdStatus === 'warn')
+      ? 'warn'
+      : 'ok';
+  const thresholdMessages = metricChecks
+    .filter((check) => check.thresholdStatus === thresholdStatus)
+    .map((check) => check.thresholdMessage)
+    .filter((message): message is string => message !== null);
+  const thresholdMessage =
+    thresholdMessages.length > 0 ? thresholdMessages.join('; ') : null;
+  const budgetMessages = metricChecks
+    .map((check) => check.budgetMessage)
+    .filter((message): message is string => message !== null);
+  const budgetMessage =
+    budgetMessages.length > 0 ? budgetMessages.join('; ') : null;
 
   let status: DiffResult['status'] = 'pass';
-  if (budgetKb !== null && diffMetric > budgetKb * 1024) {
+  if (budgetMessage) {
     status = 'fail';
   } else if (thresholdStatus === 'fail') {
     status = 'fail';
+  } else if (budgetViolations.length > 0 || ceilingViolations.length > 0) {
+    status = 'fail';
+  }
+  // Absolute limits do not depend on the baseline, so they still gate.
+  if (
+    options.baselineFreshness?.stale &&
+    options.staleBaseline === 'skip' &&
+    absoluteViolations.length === 0
+  ) {
+    status = 'stale-baseline';
   }
 
   return {
@@ -131,13 +765,51 @@ export function diffBundles(
     diffPercentBrotli,
     diffPercentSize,
     topChanges,
+    fileChanges,
+    moduleChanges: diffModules(baseline, current),
+    loadSplit: computeLoadSplit(baseline, current, extractFileMetric),
+    routes: routeDiff.routes,
+    categoryChanges: diffCategories(baseline, current),
     compareMetric,
     status,
     worstDeltaKb,
     thresholdStatus,
     thresholdMessage,
-    budgetMaxIncreaseKb: budgetKb,
-    warnAboveKb: warnKb,
-    failAboveKb: failKb,
+    budgetMaxIncreaseKb: compareLimits.budgetKb,
+    warnAboveKb: compareLimits.warnKb,
+    failAboveKb: compareLimits.failKb,
+    budgetMaxIncreasePercent: compareLimits.budgetPercent,
+    warnAbovePercent: compareLimits.warnPercent,
+    failAbovePercent: compareLimits.failPercent,
+    budgetMessage,
+    budgetViolations,
+    ceilingViolations,
+    metricChecks,
+    thresholdFiles,
+    baselineSource: options.baselineSource ?? {
+      commit: baseline.commit,
+      origin: 'store',
+      mergeBase: null,
+      distance: null,
+    },
+    baselineFreshness: options.baselineFreshness ?? null,
+    nondeterministic,
+    variant: options.variant ?? null,
+    treemapUrl: options.treemapUrl ?? null,
   };
 }
+
+// Most severe first; several variants report the first status any of them has.
+const STATUS_ORDER: DiffResult['status'][] = [
+  'fail',
+  'stale-baseline',
+  'no-baseline',
+  'baseline-updated',
+  'pass',
+];
+
+export function combineStatuses(
+  statuses: DiffResult['status'][]
+): DiffResult['status'] {
+  return STATUS_ORDER.find((status) => statuses.includes(status)) ?? 'pass';
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import {
+  ActionInputs,
+  BudgetRule,
+  BuildVariant,
+  CompareMetric,
+  MetricLimits,
+  MetricLimitsByMetric,
+  RepoConfig,
+  RepoLimits,
+  RouteBudget,
+} from './types';
+import { resolveCompareMetric } from './compare';
+
+const CONFIG_FILES = [
+  '.build-size-diff.json',
+  '.build-size-diff.yml',
+  '.build-size-diff.yaml',
+];
+const METRICS: CompareMetric[] = ['size', 'gzip', 'brotli'];
+
+function readOptionalNumber(
+  source: Record<string, unknown>,
+  key: string,
+  context: string
+): number | null {
+  const value = source[key];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${context}: ${key} must be a non-negative number`);
+  }
+  return value;
+}
+
+interface BudgetLimits {
+  metric: CompareMetric | null;
+  maxKb: number | null;
+  maxIncreaseKb: number | null;
+}
+
+function parseBudgetEntry(
+  raw: unknown,
+  context: string,
+  targetKey: 'files' | 'route'
+): { target: string; limits: BudgetLimits } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${context} must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+
+  const target = entry[targetKey];
+  if (typeof target !== 'string' || !target.trim()) {
+    throw new Error(`${context}: ${targetKey} must be a non-empty string`);
+  }
+
+  let metric: CompareMetric | null = null;
+  if (entry.metric !== undefined) {
+    if (!METRICS.includes(entry.metric as CompareMetric)) {
+      throw new Error(`${context}: metric must be one of size, gzip, brotli`);
+    }
+    metric = entry.metric as CompareMetric;
+  }
+
+  const maxKb = readOptionalNumber(entry, 'maxKb', context);
+  const maxIncreaseKb = readOptionalNumber(entry, 'maxIncreaseKb', context);
+  if (maxKb === null && maxIncreaseKb === null) {
+    throw new Error(`${context}: set maxKb and/or maxIncreaseKb`);
+  }
+
+  return { target: target.trim(), limits: { metric, maxKb, maxIncreaseKb } };
+}
+
+function parseBudgetRule(raw: unknown, context: string): BudgetRule {
+  const { target, limits } = parseBudgetEntry(raw, context, 'files');
+  return { files: target, ...limits };
+}
+
+function parseRouteBudget(raw: unknown, context: string): RouteBudget {
+  const { target, limits } = parseBudgetEntry(raw, context, 'route');
+  return { route: target, ...limits };
+}
+
+function parseMetricLimits(raw: unknown, context: string): MetricLimits {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${context} must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+  return {
+    budgetKb: readOptionalNumber(entry, 'budgetMaxIncreaseKb', context),
+    budgetPercent: readOptionalNumber(
+      entry,
+      'budgetMaxIncreasePercent',
+      context
+    ),
+    warnKb: readOptionalNumber(entry, 'warnAboveKb', context),
+    warnPercent: readOptionalNumber(entry, 'warnAbovePercent', context),
+    failKb: readOptionalNumber(entry, 'failAboveKb', context),
+    failPercent: readOptionalNumber(entry, 'failAbovePercent', context),
+    maxTotalKb: readOptionalNumber(entry, 'maxTotalKb', context),
+    maxFileKb: readOptionalNumber(entry, 'maxFileKb', context),
+  };
+}
+
+function parseMetrics(raw: unknown, prefix: string): MetricLimitsByMetric {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${prefix}metrics must be an object`);
+  }
+  const metrics: MetricLimitsByMetric = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!METRICS.includes(key as CompareMetric)) {
+      throw new Error(
+        `${prefix}metrics.${key}: must be one of size, gzip, brotli`
+      );
+    }
+    metrics[key as CompareMetric] = parseMetricLimits(
+      value,
+      `${prefix}metrics.${key}`
+    );
+  }
+  return metrics;
+}
+
+// prefix locates the limits in error messages, e.g. "variants[0]." or "".
+function parseLimits(
+  config: Record<string, unknown>,
+  prefix: string
+): RepoLimits {
+  const context = prefix ? prefix.slice(0, -1) : 'config';
+  const budgets = config.budgets ?? [];
+  if (!Array.isArray(budgets)) {
+    throw new Error(`${prefix}budgets must be an array`);
+  }
+  const routes = config.routes ?? [];
+  if (!Array.isArray(routes)) {
+    throw new Error(`${prefix}routes must be an array`);
+  }
+
+  return {
+    budgetMaxIncreaseKb: readOptionalNumber(
+      config,
+      'budgetMaxIncreaseKb',
+      context
+    ),
+    warnAboveKb: readOptionalNumber(config, 'warnAboveKb', context),
+    failAboveKb: readOptionalNumber(config, 'failAboveKb', context),
+    budgetMaxIncreasePercent: readOptionalNumber(
+      config,
+      'budgetMaxIncreasePercent',
+      context
+    ),
+    warnAbovePercent: readOptionalNumber(config, 'warnAbovePercent', context),
+    failAbovePercent: readOptionalNumber(config, 'failAbovePercent', context),
+    maxTotalKb: readOptionalNumber(config, 'maxTotalKb', context),
+    maxFileKb: readOptionalNumber(config, 'maxFileKb', context),
+    metrics: parseMetrics(config.metrics, prefix),
+    budgets: budgets.map((rule, index) =>
+      parseBudgetRule(rule, `${prefix}budgets[${index}]`)
+    ),
+    routes: routes.map((route, index) =>
+      parseRouteBudget(route, `${prefix}routes[${index}]`)
+    ),
+  };
+}
+
+function parseVariant(raw: unknown, index: number): BuildVariant {
+  const context = `variants[${index}]`;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${context} must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+
+  // Names end up in artifact and file names.
+  const name = entry.name;
+  if (typeof name !== 'string' || !/^[A-Za-z0-9_-]+$/.test(name)) {
+    throw new Error(
+      `${context}: name must contain only letters, digits, "-" and "_"`
+    );
+  }
+  const distPath = entry.distPath;
+  if (typeof distPath !== 'string' || !distPath.trim()) {
+    throw new Error(`${context}: distPath must be a non-empty string`);
+  }
+  const buildCommand = entry.buildCommand ?? null;
+  if (
+    buildCommand !== null &&
+    (typeof buildCommand !== 'string' || !buildCommand.trim())
+  ) {
+    throw new Error(`${context}: buildCommand must be a non-empty string`);
+  }
+  if (entry.variants !== undefined) {
+    throw new Error(`${context}: variants cannot be nested`);
+  }
+
+  return {
+    name,
+    buildCommand,
+    distPath: distPath.trim(),
+    limits: parseLimits(entry, `${context}.`),
+  };
+}
+
+export function parseRepoConfig(raw: unknown): RepoConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('config must be an object');
+  }
+  const config = raw as Record<string, unknown>;
+
+  const variants = config.variants ?? [];
+  if (!Array.isArray(variants)) {
+    throw new Error('variants must be an array');
+  }
+  const parsed = variants.map(parseVariant);
+  const names = new Set<string>();
+  for (const variant of parsed) {
+    if (names.has(variant.name)) {
+      throw new Error(`variants: duplicate name "${variant.name}"`);
+    }
+    names.add(variant.name);
+  }
+
+  const packages = config.packages ?? {};
+  if (typeof packages !== 'object' || Array.isArray(packages)) {
+    throw new Error('packages must be an object keyed by package name');
+  }
+  const packageLimits: Record<string, RepoLimits> = {};
+  for (const [name, entry] of Object.entries(packages)) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`packages.${name} must be an object`);
+    }
+    packageLimits[name] = parseLimits(
+      entry as Record<string, unknown>,
+      `packages.${name}.`
+    );
+  }
+
+  return {
+    ...parseLimits(config, ''),
+    variants: parsed,
+    packages: packageLimits,
+  };
+}
+
+export function loadRepoConfig(
+  userProvidedPath: string | undefined,
+  repoRoot: string = process.cwd()
+): RepoConfig | null {
+  let configPath: string | null = null;
+
+  if (userProvidedPath) {
+    configPath = path.resolve(repoRoot, userProvidedPath);
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Config file not found: ${userProvidedPath}`);
+    }
+  } else {
+    for (const fileName of CONFIG_FILES) {
+      const candidate = path.join(repoRoot, fileName);
+      if (fs.existsSync(candidate)) {
+        configPath = candidate;
+        break;
+      }
+    }
+  }
+
+  if (!configPath) return null;
+
+  const content = fs.readFileSync(configPath, 'utf-8');
+  const relative = path.relative(repoRoot, configPath);
+
+  try {
+    const raw = /\.ya?ml$/i.test(configPath)
+      ? parseYaml(content)
+      : JSON.parse(content);
+    return parseRepoConfig(raw);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid config file ${relative}: ${message}`);
+  }
+}
+
+// Limits set on the variant win over the shared ones; rules add up.
+export function inputsForVariant(
+  inputs: ActionInputs,
+  variant: BuildVariant
+): ActionInputs {
+  const { limits } = variant;
+  // Per-metric limits beat top-level ones when diffing, so the variant's
+  // top-level limits are folded into its compare metric to win over shared
+  // per-metric limits.
+  const compareMetric = resolveCompareMetric(inputs.gzip, inputs.brotli);
+  const topLevel: MetricLimits = {
+    budgetKb: limits.budgetMaxIncreaseKb,
+    budgetPercent: limits.budgetMaxIncreasePercent,
+    warnKb: limits.warnAboveKb,
+    warnPercent: limits.warnAbovePercent,
+    failKb: limits.failAboveKb,
+    failPercent: limits.failAbovePercent,
+    maxTotalKb: limits.maxTotalKb,
+    maxFileKb: limits.maxFileKb,
+  };
+  const metricLimits: MetricLimitsByMetric = { ...inputs.metricLimits };
+  for (const metric of ['size', 'gzip', 'brotli'] as CompareMetric[]) {
+    const overrides = limits.metrics[metric];
+    const fromTopLevel = metric === compareMetric ? topLevel : null;
+    if (!overrides && !fromTopLevel) continue;
+    const shared = inputs.metricLimits[metric];
+    const merged = {} as MetricLimits;
+    for (const key of Object.keys(topLevel) as Array<keyof MetricLimits>) {
+      merged[key] =
+        overrides?.[key] ?? fromTopLevel?.[key] ?? shared?.[key] ?? null;
+    }
+    metricLimits[metric] = merged;
+  }
+
+  return {
+    ...inputs,
+    buildCommand: variant.buildCommand ?? inputs.buildCommand,
+    distPath: variant.distPath,
+    budgetMaxIncreaseKb:
+      limits.budgetMaxIncreaseKb ?? inputs.budgetMaxIncreaseKb,
+    warnAboveKb: limits.warnAboveKb ?? inputs.warnAboveKb,
+    failAboveKb: limits.failAboveKb ?? inputs.failAboveKb,
+    budgetMaxIncreasePercent:
+      limits.budgetMaxIncreasePercent ?? inputs.budgetMaxIncreasePercent,
+    warnAbovePercent: limits.warnAbovePercent ?? inputs.warnAbovePercent,
+    failAbovePercent: limits.failAbovePercent ?? inputs.failAbovePercent,
+    maxTotalKb: limits.maxTotalKb ?? inputs.maxTotalKb,
+    maxFileKb: limits.maxFileKb ?? inputs.maxFileKb,
+    metricLimits,
+    budgetRules: [...inputs.budgetRules, ...limits.budgets],
+    routeBudgets: [...inputs.routeBudgets, ...limits.routes],
+    variants: [],
+  };
+}
@@ -0,0 +1,29 @@
+import { BundleStats } from './types';
+import { pairFiles } from './compare';
+
+// Files whose bytes differ between two builds of the same commit. Paths are
+// taken from the second build, whose output is the one left on disk.
+export function findNondeterministicFiles(
+  first: BundleStats,
+  second: BundleStats,
+  hashPattern: RegExp | null
+): string[] {
+  const pairs = pairFiles(
+    first.files,
+    second.files,
+    hashPattern,
+    (f) => f.size
+  );
+  const files: string[] = [];
+  for (const { base, current } of pairs) {
+    if (!current) continue;
+    if (
+      !base ||
+      base.size !== current.size ||
+      base.fingerprint?.hash !== current.fingerprint?.hash
+    ) {
+      files.push(current.path);
+    }
+  }
+  return files.sort();
+}
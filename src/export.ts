@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BudgetRule, BudgetViolation, DiffResult } from './types';
+import { buildCommentMarkdown } from './report';
+import { formatFileDelta } from './compare';
+
+// Bump when fields are removed or change meaning; additions keep the version.
+export const REPORT_VERSION = 1;
+
+export interface ReportPaths {
+  json: string;
+  markdown: string;
+  junit: string;
+}
+
+interface TestCase {
+  name: string;
+  failure?: string;
+  skipped?: string;
+  output?: string;
+}
+
+export function buildJsonReport(diff: DiffResult): string {
+  return JSON.stringify({ reportVersion: REPORT_VERSION, ...diff }, null, 2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function failureText(violations: BudgetViolation[]): string | undefined {
+  return violations.length > 0
+    ? violations.map((v) => v.message).join('\n')
+    : undefined;
+}
+
+function collectTestCases(
+  diff: DiffResult,
+  budgetRules: BudgetRule[]
+): TestCase[] {
+  const cases: TestCase[] = [];
+  const noBaseline = !diff.baseline
+    ? 'No baseline'
+    : diff.status === 'stale-baseline'
+      ? 'Stale baseline'
+      : undefined;
+
+  const describeLimits = (kb: number | null, percent: number | null) =>
+    [kb !== null ? `${kb} KB` : null, percent !== null ? `${percent}%` : null]
+      .filter((limit): limit is string => !!limit)
+      .join(' / ');
+  for (const { metric, limits, budgetMessage } of diff.metricChecks) {
+    const describeFiles = (level: 'warn' | 'fail') => {
+      const files = diff.thresholdFiles.filter(
+        (f) => f.metric === metric && f.level === level
+      );
+      return files.length > 0
+        ? files
+            .map(
+              (f) =>
+                `${f.file} +${formatFileDelta(f.deltaBytes)} (${f.deltaPercent === null ? 'new file' : `+${f.deltaPercent.toFixed(1)}%`})`
+            )
+            .join('\n')
+        : undefined;
+    };
+
+    if (limits.budgetKb !== null || limits.budgetPercent !== null) {
+      cases.push({
+        name: `total ${metric} increase <= ${describeLimits(limits.budgetKb, limits.budgetPercent)}`,
+        skipped: noBaseline,
+        failure: budgetMessage ?? undefined,
+      });
+    }
+    if (limits.failKb !== null || limits.failPercent !== null) {
+      cases.push({
+        name: `per-file ${metric} increase < ${describeLimits(limits.failKb, limits.failPercent)}`,
+        skipped: noBaseline,
+        failure: describeFiles('fail'),
+      });
+    }
+    if (limits.warnKb !== null || limits.warnPercent !== null) {
+      // Warnings never fail the run, so they are reported as output only.
+      cases.push({
+        name: `per-file ${metric} increase < ${describeLimits(limits.warnKb, limits.warnPercent)} (warning)`,
+        skipped: noBaseline,
+        output: describeFiles('warn'),
+      });
+    }
+
+    // Ceilings are absolute, so they apply even without a baseline.
+    const ceilings = (scope: 'total' | 'file') =>
+      failureText(
+        diff.ceilingViolations.filter(
+          (v) => v.scope === scope && v.metric === metric
+        )
+      );
+    if (limits.maxTotalKb !== null) {
+      cases.push({
+        name: `total ${metric} <= ${limits.maxTotalKb} KB`,
+        failure: ceilings('total'),
+      });
+    }
+    if (limits.maxFileKb !== null) {
+      cases.push({
+        name: `every file ${metric} <= ${limits.maxFileKb} KB`,
+        failure: ceilings('file'),
+      });
+    }
+  }
+
+  budgetRules.forEach((rule, index) => {
+    cases.push({
+      name: `files ${rule.files}${rule.metric ? ` (${rule.metric})` : ''}`,
+      failure: failureText(
+        diff.budgetViolations.filter(
+          (v) => v.scope === 'files' && v.rule === index
+        )
+      ),
+    });
+  });
+
+  for (const route of diff.routes) {
+    if (route.budgetStatus === null) continue;
+    cases.push({
+      name: `route ${route.route}`,
+      failure: failureText(
+        diff.budgetViolations.filter(
+          (v) => v.scope === 'route' && v.target === route.route
+        )
+      ),
+    });
+  }
+
+  return cases;
+}
+
+export function buildJUnitReport(
+  diff: DiffResult,
+  budgetRules: BudgetRule[] = []
+): string {
+  const cases = collectTestCases(diff, budgetRules);
+  const failures = cases.filter((c) => c.failure && !c.skipped).length;
+  const skipped = cases.filter((c) => c.skipped).length;
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  xml += `<testsuites name="build-size-diff" tests="${cases.length}" failures="${failures}" skipped="${skipped}">\n`;
+  xml += `  <testsuite name="bundle size" tests="${cases.length}" failures="${failures}" skipped="${skipped}">\n`;
+  for (const testCase of cases) {
+    const name = escapeXml(testCase.name);
+    xml += `    <testcase classname="build-size-diff" name="${name}"`;
+    if (testCase.skipped) {
+      xml += `>\n      <skipped message="${escapeXml(testCase.skipped)}"/>\n    </testcase>\n`;
+    } else if (testCase.failure) {
+      const message = escapeXml(testCase.failure.split('\n')[0]);
+      xml += `>\n      <failure message="${message}">${escapeXml(testCase.failure)}</failure>\n    </testcase>\n`;
+    } else if (testCase.output) {
+      xml += `>\n      <system-out>${escapeXml(testCase.output)}</system-out>\n    </testcase>\n`;
+    } else {
+      xml += `/>\n`;
+    }
+  }
+  xml += `  </testsuite>\n</testsuites>\n`;
+  return xml;
+}
+
+export function writeReports(
+  reportPath: string,
+  diff: DiffResult,
+  budgetRules: BudgetRule[]
+): ReportPaths {
+  fs.mkdirSync(reportPath, { recursive: true });
+  const paths: ReportPaths = {
+    json: path.join(reportPath, 'build-size-diff.json'),
+    markdown: path.join(reportPath, 'build-size-diff.md'),
+    junit: path.join(reportPath, 'build-size-diff.junit.xml'),
+  };
+  fs.writeFileSync(paths.json, buildJsonReport(diff));
+  // Files have no length limit, so the changed-file list is never cut.
+  fs.writeFileSync(paths.markdown, buildCommentMarkdown(diff, Infinity));
+  fs.writeFileSync(paths.junit, buildJUnitReport(diff, budgetRules));
+  return paths;
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { FileFingerprint } from './types';
+
+// Bytes per shingle; long enough that minified code rarely repeats by chance.
+const SHINGLE_SIZE = 16;
+const SKETCH_SIZE = 32;
+const ROLLING_BASE = 257;
+
+// Murmur3 finalizer: spreads the rolling hash so the smallest values are a
+// uniform sample of the shingles.
+function mix(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function addToSketch(sketch: number[], value: number): void {
+  if (sketch.length === SKETCH_SIZE && value >= sketch[sketch.length - 1]) {
+    return;
+  }
+  if (sketch.includes(value)) return;
+  let index = sketch.length;
+  while (index > 0 && sketch[index - 1] > value) index--;
+  sketch.splice(index, 0, value);
+  if (sketch.length > SKETCH_SIZE) sketch.pop();
+}
+
+// Bottom-k MinHash over byte shingles, computed with a rolling hash so the
+// cost stays linear in the file size.
+function computeSketch(content: Buffer): number[] {
+  const sketch: number[] = [];
+  if (content.length === 0) return sketch;
+
+  let outgoing = 1;
+  for (let i = 0; i < SHINGLE_SIZE; i++) {
+    outgoing = Math.imul(outgoing, ROLLING_BASE);
+  }
+
+  let rolling = 0;
+  for (let i = 0; i < content.length; i++) {
+    rolling = (Math.imul(rolling, ROLLING_BASE) + content[i]) | 0;
+    if (i >= SHINGLE_SIZE) {
+      rolling = (rolling - Math.imul(content[i - SHINGLE_SIZE], outgoing)) | 0;
+    }
+    if (i >= SHINGLE_SIZE - 1) addToSketch(sketch, mix(rolling));
+  }
+  // Files shorter than one shingle are represented by their whole content.
+  if (sketch.length === 0) sketch.push(mix(rolling));
+  return sketch;
+}
+
+export function computeFingerprint(content: Buffer): FileFingerprint {
+  return {
+    hash: createHash('sha256').update(content).digest('hex').slice(0, 16),
+    sketch: computeSketch(content),
+  };
+}
+
+export async function fingerprintFile(
+  filePath: string
+): Promise<FileFingerprint> {
+  return computeFingerprint(await fs.promises.readFile(filePath));
+}
+
+// Estimated Jaccard similarity of the two files' shingle sets (0..1).
+export function estimateSimilarity(
+  a: FileFingerprint,
+  b: FileFingerprint
+): number {
+  if (a.hash === b.hash) return 1;
+  if (a.sketch.length === 0 || b.sketch.length === 0) return 0;
+
+  const inA = new Set(a.sketch);
+  const inB = new Set(b.sketch);
+  const union = Array.from(new Set([...a.sketch, ...b.sketch]))
+    .sort((x, y) => x - y)
+    .slice(0, SKETCH_SIZE);
+  const shared = union.filter((value) => inA.has(value) && inB.has(value));
+  return shared.length / union.length;
+}
@@ -0,0 +1,83 @@
+import { BundleStats, CompareMetric, HistoryEntry } from './types';
+import { formatBytes } from './scan';
+
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+export function historyEntry(stats: BundleStats): HistoryEntry {
+  return {
+    commit: stats.commit,
+    timestamp: stats.timestamp,
+    totalSize: stats.totalSize,
+    totalGzip: stats.totalGzip,
+    totalBrotli: stats.totalBrotli,
+  };
+}
+
+export function appendHistory(
+  previous: BundleStats | null,
+  current: BundleStats,
+  limit: number
+): HistoryEntry[] {
+  // Baselines written before history existed still contribute one point.
+  const carried = previous
+    ? (previous.history ?? [historyEntry(previous)])
+    : [];
+  const entries = carried.filter((entry) => entry.commit !== current.commit);
+  entries.push(historyEntry(current));
+  return entries.slice(-limit);
+}
+
+function metricOf(entry: HistoryEntry, metric: CompareMetric): number {
+  if (metric === 'brotli') return entry.totalBrotli;
+  if (metric === 'gzip') return entry.totalGzip;
+  return entry.totalSize;
+}
+
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return '';
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+  return values
+    .map((value) => {
+      if (range === 0) return SPARK_CHARS[0];
+      const index = Math.round(
+        ((value - min) / range) * (SPARK_CHARS.length - 1)
+      );
+      return SPARK_CHARS[index];
+    })
+    .join('');
+}
+
+export function buildTrendMarkdown(
+  history: HistoryEntry[],
+  metric: CompareMetric,
+  pending: HistoryEntry | null = null
+): string {
+  const points = pending ? [...history, pending] : history;
+  if (points.length < 2) return '';
+
+  const values = points.map((entry) => metricOf(entry, metric));
+  const first = values[0];
+  const last = values[values.length - 1];
+  const growth = last - first;
+  const growthPercent = first > 0 ? (growth / first) * 100 : 0;
+
+  let body = `
+### Trend (${metric}, last ${history.length} main builds)
+
+\`${sparkline(values)}\` ${formatBytes(first)} → ${formatBytes(last)} (${growth >= 0 ? '+' : ''}${formatBytes(growth)}, ${growthPercent >= 0 ? '+' : ''}${growthPercent.toFixed(1)}%)${pending ? ' · last point is this PR' : ''}
+
+<details>
+<summary>Last ${Math.min(10, history.length)} builds</summary>
+
+| Commit | Date | Size | Gzip | Brotli |
+|--------|------|------|------|--------|
+`;
+  for (const entry of history.slice(-10).reverse()) {
+    body += `| \`${entry.commit.slice(0, 7)}\` | ${entry.timestamp.slice(0, 10)} | ${formatBytes(entry.totalSize)} | ${formatBytes(entry.totalGzip)} | ${formatBytes(entry.totalBrotli)} |\n`;
+  }
+  body += `\n</details>\n`;
+
+  return body;
+}
@@ -1,17 +1,75 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { ActionInputs, BundleStats, DiffResult } from './types';
+import * as path from 'path';
+import {
+  ActionInputs,
+  BaselineSource,
+  BudgetViolation,
+  BuildVariant,
+  BundleStats,
+  CompareMetric,
+  DiffOptions,
+  DiffResult,
+  MetricLimits,
+  MetricLimitsByMetric,
+  PullRequestInfo,
+  RepoConfig,
+  RepoLimits,
+} from './types';
 import { executeBuild, installDeps } from './build';
 import { scanDirectory } from './scan';
-import { diffBundles } from './compare';
-import { saveBaselineArtifact, fetchBaselineArtifact } from './artifact';
+import {
+  combineStatuses,
+  diffBundles,
+  evaluateBudgetRules,
+  evaluateSizeCeilings,
+  resolveCompareMetric,
+} from './compare';
 import { updatePRComment, writeJobSummary } from './comment';
-import { locateBuildOutput } from './autodetect';
+import { publishCheckRun } from './checks';
+import { writeReports } from './export';
+import { locateBuildOutput, locatePackageOutput } from './autodetect';
+import { inputsForVariant, loadRepoConfig } from './config';
+import { loadChunkGraph } from './metadata';
+import { diffRoutes } from './routes';
+import { parseAssetFilter } from './utils';
+import { appendHistory } from './history';
+import {
+  fetchPullRequestArtifact,
+  savePullRequestArtifact,
+  uploadTreemapArtifact,
+} from './artifact';
+import { buildTreemapHtml } from './treemap';
+import { BaselineStore, createBaselineStore } from './store';
+import { assessBaselineFreshness, resolveMergeBaseAncestry } from './ancestry';
+import { buildBaselineInWorktree, buildBaselinesInWorktree } from './worktree';
+import { findNondeterministicFiles } from './determinism';
+import { discoverWorkspacePackages, variantNameFor } from './workspace';
+
+// One build to measure: the whole action, or a single named variant with
+// its own inputs and baseline store.
+interface VariantRun {
+  name: string | null;
+  inputs: ActionInputs;
+  store: BaselineStore;
+}
+
+interface VariantBuild extends VariantRun {
+  current: BundleStats;
+}
 
 async function run(): Promise<void> {
   try {
     const inputs = readActionInputs();
 
+    if (inputs.mode === 'report') {
+      const variants = inputs.workspaces
+        ? workspaceVariants(inputs, false)
+        : inputs.variants;
+      await runReportPhase(planVariants(inputs, variants), inputs);
+      return;
+    }
+
     const eventName = github.context.eventName;
     if (eventName === 'pull_request_target') {
       core.warning(
@@ -22,8 +80,8 @@ async function run(): Promise<void> {
     }
     if (eventName === 'workflow_run') {
       core.warning(
-        'Running on workflow_run event. This may have unexpected artifact access permissions. ' +
-          'Recommended: Use pull_request trigger for PR workflows.'
+        `Running on workflow_run event with mode: ${inputs.mode}. ` +
+          'Use mode: report to comment on PRs from a workflow_run job.'
       );
     }
 
@@ -34,10 +92,15 @@ async function run(): Promise<void> {
       const headRepo = pr.head.repo?.full_name;
       const baseRepo = pr.base.repo?.full_name;
 
-      if (headRepo && baseRepo && headRepo !== baseRepo) {
+      if (
+        headRepo &&
+        baseRepo &&
+        headRepo !== baseRepo &&
+        inputs.mode !== 'analyze'
+      ) {
         core.setFailed(
-          'Fork PRs not supported. This action requires "actions: read" permission on base repo. ' +
-            'See README for limitations.'
+          'Fork PRs need the split workflow: mode: analyze on pull_request, then mode: report on workflow_run. ' +
+            'See README for setup.'
         );
         return;
       }
@@ -63,74 +126,604 @@ async function run(): Promise<void> {
     if (!inputs.skipInstall) {
       await installDeps();
     }
-    await executeBuild(
-      inputs.buildCommand,
-      inputs.buildTimeoutMs,
-      inputs.failOnStderr,
-      inputs.allowUnsafeBuild
+    const builds: VariantBuild[] = [];
+    if (inputs.workspaces) {
+      builds.push(...(await buildWorkspace(inputs, isPR)));
+    } else {
+      for (const variant of planVariants(inputs, inputs.variants)) {
+        builds.push({ ...variant, current: await buildVariant(variant, isPR) });
+      }
+    }
+
+    if (isMain && !isPR) {
+      const ceilings: BudgetViolation[] = [];
+      for (const build of builds) {
+        ceilings.push(...(await recordBaseline(build, ref)));
+      }
+      core.info('Baseline updated');
+      // The baseline is still saved so the next PR compares against reality.
+      publishOutputs(
+        builds.map((build) => build.current),
+        [],
+        ceilings.length > 0 ? 'fail' : 'baseline-updated'
+      );
+      failOnCeilings(ceilings);
+      return;
+    }
+
+    const pr = github.context.payload.pull_request;
+    if (pr) {
+      const prInfo: PullRequestInfo = {
+        number: pr.number,
+        baseRef: pr.base.ref,
+        baseSha: pr.base.sha,
+        headSha: pr.head.sha,
+      };
+      if (inputs.mode === 'analyze') {
+        for (const build of builds) {
+          await savePullRequestArtifact(build.current, prInfo, build.name);
+        }
+        publishOutputs(
+          builds.map((build) => build.current),
+          [],
+          'analyzed'
+        );
+        return;
+      }
+      await reportPullRequest(builds, inputs, prInfo);
+      return;
+    }
+
+    const ceilings = builds.flatMap((build) =>
+      evaluateAbsoluteLimits(build.current, build.inputs)
     );
+    publishOutputs(
+      builds.map((build) => build.current),
+      [],
+      ceilings.length > 0 ? 'fail' : 'pass'
+    );
+    failOnCeilings(ceilings);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.setFailed(message);
+  }
+}
+
+function planVariants(
+  inputs: ActionInputs,
+  variants: BuildVariant[]
+): VariantRun[] {
+  const storeFor = (variant: string | null) =>
+    createBaselineStore({
+      storage: inputs.baselineStorage,
+      githubToken: inputs.githubToken,
+      maxArtifactPages: inputs.maxArtifactPages,
+      storageBranch: inputs.baselineBranch,
+      storageDir: inputs.baselineDir,
+      variant,
+    });
+  if (variants.length === 0 && !inputs.workspaces) {
+    return [{ name: null, inputs, store: storeFor(null) }];
+  }
+  return variants.map((variant) => ({
+    name: variant.name,
+    inputs: inputsForVariant(inputs, variant),
+    store: storeFor(variant.name),
+  }));
+}
+
+function runBuild(inputs: ActionInputs): Promise<void> {
+  return executeBuild(
+    inputs.buildCommand,
+    inputs.buildTimeoutMs,
+    inputs.failOnStderr,
+    inputs.allowUnsafeBuild
+  );
+}
 
-    const current = await scanDirectory(
-      inputs.distPath,
-      inputs.gzip,
-      inputs.brotli
+async function buildVariant(
+  { name, inputs }: VariantRun,
+  isPR: boolean
+): Promise<BundleStats> {
+  if (name) core.info(`Building variant ${name}`);
+  await runBuild(inputs);
+
+  let current = await scanBuildOutput(inputs);
+  core.info(`Scanned ${current.files.length} files`);
+
+  if (inputs.determinismCheck && isPR) {
+    current = await checkDeterminism(current, inputs);
+  }
+
+  if (inputs.bundleMetadata) {
+    try {
+      current.chunkGraph = loadChunkGraph(
+        inputs.bundleMetadata,
+        inputs.distPath
+      );
+      core.info(
+        `Loaded ${current.chunkGraph.format} metadata (${current.chunkGraph.entries.length} entries, ${current.chunkGraph.chunks.length} chunks)`
+      );
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      core.warning(message);
+    }
+  }
+  return current;
+}
+
+// Saves a default-branch build as the next baseline and returns the size
+// ceilings and maxKb budgets it exceeds.
+async function recordBaseline(
+  { name, inputs, store, current }: VariantBuild,
+  ref: string
+): Promise<BudgetViolation[]> {
+  const baseline = await store.fetchLatest(getBaselineBranches());
+  current.history = appendHistory(baseline, current, inputs.historySize);
+  await store.save(current, ref.replace(/^refs\/heads\//, ''));
+  const metric = resolveCompareMetric(inputs.gzip, inputs.brotli);
+  const violations = [
+    ...evaluateBudgetRules(inputs.budgetRules, baseline, current, metric),
+    ...diffRoutes(baseline, current, inputs.routeBudgets, metric).violations,
+  ];
+  const ceilings = evaluateSizeCeilings(current, diffOptionsFrom(inputs));
+  const treemapUrl = inputs.treemap
+    ? await uploadTreemapArtifact(
+        buildTreemapHtml(baseline, current, metric, inputs.hashPattern),
+        name
+      )
+    : null;
+  await writeJobSummary(
+    current,
+    baseline,
+    [...ceilings, ...violations],
+    metric,
+    treemapUrl,
+    [],
+    name
+  );
+  return [...ceilings, ...violations.filter((v) => v.kind === 'max')];
+}
+
+function scanBuildOutput(inputs: ActionInputs): Promise<BundleStats> {
+  return scanDirectory(inputs.distPath, {
+    useGzip: inputs.gzip,
+    useBrotli: inputs.brotli,
+    commit: github.context.sha || 'unknown',
+    sourceMaps: inputs.sourceMaps,
+    assetFilter: inputs.assetFilter,
+  });
+}
+
+// Builds the same commit a second time; files that come out different are
+// noise in any size diff.
+async function checkDeterminism(
+  first: BundleStats,
+  inputs: ActionInputs
+): Promise<BundleStats> {
+  core.info('Rebuilding to check that the build output is deterministic');
+  await runBuild(inputs);
+  return compareBuilds(first, await scanBuildOutput(inputs), inputs);
+}
+
+function compareBuilds(
+  first: BundleStats,
+  second: BundleStats,
+  inputs: ActionInputs
+): BundleStats {
+  const files = findNondeterministicFiles(first, second, inputs.hashPattern);
+  if (files.length === 0) {
+    core.info(`Build output of ${inputs.distPath} is deterministic`);
+    return second;
+  }
+  core.warning(
+    `${files.length} file(s) differ between two builds of the same commit: ${files.join(', ')}`
+  );
+  return { ...second, nondeterministicFiles: files };
+}
+
+// Workspace packages share one build from the repo root; every package with
+// an output directory afterwards is reported as a variant.
+async function buildWorkspace(
+  inputs: ActionInputs,
+  isPR: boolean
+): Promise<VariantBuild[]> {
+  await runBuild(inputs);
+  const runs = planVariants(inputs, workspaceVariants(inputs, true));
+  if (runs.length === 0) {
+    throw new Error(
+      'No workspace package has an output directory after the build'
     );
-    core.info(`Scanned ${current.files.length} files`);
+  }
 
-    if (isMain && !isPR) {
-      const baseline = await fetchBaselineArtifact(
-        inputs.githubToken,
-        getBaselineBranches(),
-        inputs.maxArtifactPages
+  const builds: VariantBuild[] = [];
+  for (const run of runs) {
+    const current = await scanBuildOutput(run.inputs);
+    core.info(`${run.name}: scanned ${current.files.length} files`);
+    builds.push({ ...run, current });
+  }
+  if (inputs.determinismCheck && isPR) {
+    core.info('Rebuilding to check that the build output is deterministic');
+    await runBuild(inputs);
+    for (const build of builds) {
+      const second = await scanBuildOutput(build.inputs);
+      build.current = compareBuilds(build.current, second, build.inputs);
+    }
+  }
+  return builds;
+}
+
+const NO_LIMITS: RepoLimits = {
+  budgetMaxIncreaseKb: null,
+  warnAboveKb: null,
+  failAboveKb: null,
+  budgetMaxIncreasePercent: null,
+  warnAbovePercent: null,
+  failAbovePercent: null,
+  maxTotalKb: null,
+  maxFileKb: null,
+  metrics: {},
+  budgets: [],
+  routes: [],
+};
+
+// The report phase has no build output, so it lists every package.
+function workspaceVariants(
+  inputs: ActionInputs,
+  requireOutput: boolean
+): BuildVariant[] {
+  const packages = discoverWorkspacePackages();
+  if (packages.length === 0) {
+    throw new Error(
+      'workspaces is enabled but no packages were found in package.json workspaces or pnpm-workspace.yaml'
+    );
+  }
+  for (const name of Object.keys(inputs.packageLimits)) {
+    if (!packages.some((pkg) => pkg.name === name)) {
+      core.warning(`Config packages.${name} matches no workspace package`);
+    }
+  }
+
+  const variants: BuildVariant[] = [];
+  const owners = new Map<string, string>();
+  for (const pkg of packages) {
+    const distPath = locatePackageOutput(pkg.dir, inputs.assetFilter);
+    if (!distPath && requireOutput) {
+      core.info(`Skipping ${pkg.name}: no output directory in ${pkg.dir}`);
+      continue;
+    }
+    const name = variantNameFor(pkg.name);
+    const owner = owners.get(name);
+    if (owner) {
+      throw new Error(
+        `Workspace packages ${owner} and ${pkg.name} both map to "${name}"`
       );
-      await saveBaselineArtifact(current);
-      await writeJobSummary(current, baseline);
-      core.info('Baseline updated');
-      publishOutputs(current, null, 'baseline-updated');
-      return;
     }
+    owners.set(name, pkg.name);
+    variants.push({
+      name,
+      buildCommand: null,
+      distPath: distPath ?? pkg.dir,
+      limits: inputs.packageLimits[pkg.name] ?? NO_LIMITS,
+    });
+  }
+  return variants;
+}
 
-    if (isPR) {
-      const baseline = await fetchBaselineArtifact(
-        inputs.githubToken,
-        getBaselineBranches(),
-        inputs.maxArtifactPages
+async function runReportPhase(
+  variants: VariantRun[],
+  inputs: ActionInputs
+): Promise<void> {
+  const workflowRun = github.context.payload.workflow_run;
+  if (!workflowRun) {
+    throw new Error('mode: report must run on a workflow_run event');
+  }
+  if (workflowRun.conclusion !== 'success') {
+    core.info(
+      `Triggering run concluded with ${workflowRun.conclusion}; nothing to report`
+    );
+    return;
+  }
+
+  const builds: VariantBuild[] = [];
+  let prNumber: number | null = null;
+  for (const variant of variants) {
+    const upload = await fetchPullRequestArtifact(
+      inputs.githubToken,
+      workflowRun.id,
+      variant.name
+    );
+    if (!upload) {
+      // Workspace packages without build output upload nothing.
+      if (variant.name && !inputs.workspaces) {
+        core.warning(`Triggering run uploaded no stats for ${variant.name}`);
+      }
+      continue;
+    }
+    if (prNumber !== null && upload.pr.number !== prNumber) {
+      throw new Error(
+        `Variant stats name different PRs (#${prNumber} and #${upload.pr.number})`
       );
-      const diff = diffBundles(
-        baseline,
-        current,
-        inputs.budgetMaxIncreaseKb,
-        inputs.warnAboveKb,
-        inputs.failAboveKb,
-        inputs.gzip,
-        inputs.brotli
+    }
+    prNumber = upload.pr.number;
+    builds.push({ ...variant, current: upload.stats });
+  }
+  if (prNumber === null) {
+    core.info('Triggering run uploaded no PR stats; nothing to report');
+    return;
+  }
+
+  // The PR number comes from untrusted code; only trust it if GitHub agrees
+  // that the PR head is the commit the analyze run built.
+  const octokit = github.getOctokit(inputs.githubToken);
+  const { data: pull } = await octokit.rest.pulls.get({
+    ...github.context.repo,
+    pull_number: prNumber,
+  });
+  if (pull.head.sha !== workflowRun.head_sha) {
+    throw new Error(
+      `PR #${prNumber} head ${pull.head.sha.slice(0, 7)} does not match analyzed commit ${String(workflowRun.head_sha).slice(0, 7)}`
+    );
+  }
+
+  await reportPullRequest(builds, inputs, {
+    number: pull.number,
+    baseRef: pull.base.ref,
+    baseSha: pull.base.sha,
+    headSha: pull.head.sha,
+  });
+}
+
+type BaselineBuilder = (
+  commit: string,
+  inputs: ActionInputs
+) => Promise<BundleStats | null>;
+
+// Workspace packages come from one build, so the base commit is also built
+// once and every package's output is scanned from that worktree.
+function sharedBaselineBuilder(builds: VariantBuild[]): BaselineBuilder {
+  const runs = new Map<string, Promise<Array<BundleStats | null> | null>>();
+  return async (commit, inputs) => {
+    let run = runs.get(commit);
+    if (!run) {
+      run = buildBaselinesInWorktree(
+        commit,
+        inputs,
+        builds.map((build) => build.inputs)
       );
+      runs.set(commit, run);
+    }
+    const index = builds.findIndex((build) => build.inputs === inputs);
+    return (await run)?.[index] ?? null;
+  };
+}
+
+async function diffPullRequestVariant(
+  { name, inputs, store, current }: VariantBuild,
+  pr: PullRequestInfo,
+  buildBaseline: BaselineBuilder
+): Promise<DiffResult> {
+  const { baseline, baselineSource } = await fetchPullRequestBaseline(
+    store,
+    inputs,
+    pr,
+    buildBaseline
+  );
+  const treemapUrl = inputs.treemap
+    ? await uploadTreemapArtifact(
+        buildTreemapHtml(
+          baseline,
+          current,
+          resolveCompareMetric(inputs.gzip, inputs.brotli),
+          inputs.hashPattern
+        ),
+        name
+      )
+    : null;
+  // A locally built baseline is the PR base itself, so it is always fresh.
+  const baselineFreshness =
+    baseline && baselineSource?.origin !== 'local-build'
+      ? await assessBaselineFreshness(
+          inputs.githubToken,
+          baseline,
+          pr.baseSha,
+          inputs.baselineMaxAgeDays
+        )
+      : undefined;
+  if (baselineFreshness?.stale) {
+    core.warning(
+      `${name ? `${name}: ` : ''}Stale baseline: ${baselineFreshness.reason}.` +
+        (inputs.staleBaseline === 'skip'
+          ? ' Size increases are not gated in this run.'
+          : '')
+    );
+  }
+  return diffBundles(baseline, current, {
+    ...diffOptionsFrom(inputs),
+    baselineSource,
+    baselineFreshness,
+    variant: name,
+    treemapUrl,
+  });
+}
+
+async function reportPullRequest(
+  builds: VariantBuild[],
+  inputs: ActionInputs,
+  pr: PullRequestInfo
+): Promise<void> {
+  const buildBaseline = inputs.workspaces
+    ? sharedBaselineBuilder(builds)
+    : buildBaselineInWorktree;
+  const diffs: DiffResult[] = [];
+  for (const build of builds) {
+    diffs.push(await diffPullRequestVariant(build, pr, buildBaseline));
+  }
 
-      await updatePRComment(
+  await updatePRComment(
+    inputs.githubToken,
+    diffs,
+    inputs.commentMode,
+    inputs.failOnCommentError,
+    pr.number
+  );
+  for (const [index, diff] of diffs.entries()) {
+    const build = builds[index];
+    if (inputs.checkRun) {
+      await publishCheckRun(
         inputs.githubToken,
         diff,
-        inputs.commentMode,
-        inputs.failOnCommentError
+        build.name ? `${inputs.checkName} (${build.name})` : inputs.checkName,
+        pr.headSha,
+        build.inputs.distPath || '.'
       );
-      publishOutputs(current, diff, diff.status);
-
-      if (diff.status === 'fail') {
-        if (diff.thresholdStatus === 'fail') {
-          core.setFailed(diff.thresholdMessage || 'Size threshold exceeded');
-        } else {
-          core.setFailed('Bundle size budget exceeded');
-        }
+    }
+    await writeJobSummary(
+      build.current,
+      diff.baseline,
+      [...diff.ceilingViolations, ...diff.budgetViolations],
+      diff.compareMetric,
+      diff.treemapUrl,
+      diff.fileChanges,
+      build.name,
+      diff
+    );
+    if (inputs.reportPath) {
+      // Variants write their reports side by side in subdirectories.
+      const reportPath = build.name
+        ? path.join(inputs.reportPath, build.name)
+        : inputs.reportPath;
+      const paths = writeReports(reportPath, diff, build.inputs.budgetRules);
+      if (!build.name) {
+        core.setOutput('report-json', paths.json);
+        core.setOutput('report-markdown', paths.markdown);
+        core.setOutput('report-junit', paths.junit);
       }
-      return;
+      core.info(`Reports written to ${reportPath}`);
     }
+  }
+  publishOutputs(
+    builds.map((build) => build.current),
+    diffs,
+    combineStatuses(diffs.map((diff) => diff.status))
+  );
 
-    publishOutputs(current, null, 'pass');
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : String(error);
-    core.setFailed(message);
+  const failures = diffs
+    .map((diff) => {
+      const message = describeFailure(diff);
+      return message && diff.variant ? `${diff.variant}: ${message}` : message;
+    })
+    .filter((message): message is string => message !== null);
+  if (failures.length > 0) {
+    core.setFailed(failures.join('\n'));
   }
 }
 
+function describeFailure(diff: DiffResult): string | null {
+  if (diff.status !== 'fail') return null;
+  if (diff.thresholdStatus === 'fail') {
+    return diff.thresholdMessage || 'Size threshold exceeded';
+  }
+  if (diff.budgetMessage) {
+    return `Bundle size budget exceeded: ${diff.budgetMessage}`;
+  }
+  if (diff.ceilingViolations.length > 0) {
+    return `Size ceiling exceeded: ${diff.ceilingViolations
+      .map((v) => v.message)
+      .join('; ')}`;
+  }
+  return `Budget rules exceeded: ${diff.budgetViolations
+    .map((v) => v.message)
+    .join('; ')}`;
+}
+
+function diffOptionsFrom(inputs: ActionInputs): DiffOptions {
+  return {
+    budgetKb: inputs.budgetMaxIncreaseKb,
+    warnKb: inputs.warnAboveKb,
+    failKb: inputs.failAboveKb,
+    budgetPercent: inputs.budgetMaxIncreasePercent,
+    warnPercent: inputs.warnAbovePercent,
+    failPercent: inputs.failAbovePercent,
+    maxTotalKb: inputs.maxTotalKb,
+    maxFileKb: inputs.maxFileKb,
+    useGzip: inputs.gzip,
+    useBrotli: inputs.brotli,
+    hashPattern: inputs.hashPattern,
+    budgetRules: inputs.budgetRules,
+    routeBudgets: inputs.routeBudgets,
+    metricLimits: inputs.metricLimits,
+    topChangesLimit: inputs.topChangesLimit,
+    staleBaseline: inputs.staleBaseline,
+    nondeterministicMode: inputs.nondeterministicMode,
+  };
+}
+
+async function fetchPullRequestBaseline(
+  store: BaselineStore,
+  inputs: ActionInputs,
+  pr: PullRequestInfo,
+  buildBaseline: BaselineBuilder
+): Promise<{
+  baseline: BundleStats | null;
+  baselineSource: BaselineSource | undefined;
+}> {
+  const ancestry =
+    inputs.baselineMode === 'merge-base'
+      ? await resolveMergeBaseAncestry(
+          inputs.githubToken,
+          pr.baseSha,
+          pr.headSha
+        )
+      : null;
+
+  let baseline: BundleStats | null = null;
+  if (ancestry) {
+    baseline = await store.fetchForCommits(ancestry.ancestors);
+    if (!baseline) {
+      core.warning(
+        `No baseline recorded for merge-base ${ancestry.mergeBase.slice(0, 7)} or its ancestors; using latest base branch baseline.`
+      );
+    }
+  }
+  if (!baseline) {
+    baseline = await store.fetchLatest([pr.baseRef]);
+  }
+
+  if (baseline) {
+    if (!ancestry) return { baseline, baselineSource: undefined };
+    const distance = ancestry.ancestors.indexOf(baseline.commit);
+    return {
+      baseline,
+      baselineSource: {
+        commit: baseline.commit,
+        origin: 'store',
+        mergeBase: ancestry.mergeBase,
+        distance: distance === -1 ? null : distance,
+      },
+    };
+  }
+
+  // The report phase must never build: it runs with a privileged token.
+  if (inputs.buildBaseline && inputs.mode !== 'report') {
+    const commit = ancestry?.mergeBase ?? pr.baseSha;
+    const built = await buildBaseline(commit, inputs);
+    if (built) {
+      return {
+        baseline: built,
+        baselineSource: {
+          commit,
+          origin: 'local-build',
+          mergeBase: ancestry?.mergeBase ?? null,
+          distance: ancestry ? 0 : null,
+        },
+      };
+    }
+  }
+
+  return { baseline: null, baselineSource: undefined };
+}
+
 function readNumberInput(key: string, errorMessage: string): number | null {
   const value = core.getInput(key);
   if (!value) return null;
@@ -148,6 +741,38 @@ function sanitizeNonNegative(value: number | null, key: string): number | null {
   return value;
 }
 
+const METRIC_LIMIT_INPUTS: Array<[keyof MetricLimits, string]> = [
+  ['budgetKb', 'budget-max-increase-kb'],
+  ['budgetPercent', 'budget-max-increase-percent'],
+  ['warnKb', 'warn-above-kb'],
+  ['warnPercent', 'warn-above-percent'],
+  ['failKb', 'fail-above-kb'],
+  ['failPercent', 'fail-above-percent'],
+  ['maxTotalKb', 'max-total-kb'],
+  ['maxFileKb', 'max-file-kb'],
+];
+
+function readMetricLimits(config: RepoConfig | null): MetricLimitsByMetric {
+  const limits: MetricLimitsByMetric = {};
+  for (const metric of ['size', 'gzip', 'brotli'] as CompareMetric[]) {
+    const entry = {} as MetricLimits;
+    for (const [key, name] of METRIC_LIMIT_INPUTS) {
+      const input = `${name}-${metric}`;
+      entry[key] =
+        sanitizeNonNegative(
+          readNumberInput(input, `${input} must be a number`),
+          input
+        ) ??
+        config?.metrics[metric]?.[key] ??
+        null;
+    }
+    if (Object.values(entry).some((limit) => limit !== null)) {
+      limits[metric] = entry;
+    }
+  }
+  return limits;
+}
+
 function readActionInputs(): ActionInputs {
   const budgetRaw = readNumberInput(
     'budget-max-increase-kb',
@@ -161,28 +786,118 @@ function readActionInputs(): ActionInputs {
     'fail-above-kb',
     'fail-above-kb must be a number (e.g., 100)'
   );
-  const budget = sanitizeNonNegative(budgetRaw, 'budget-max-increase-kb');
-  const warn = sanitizeNonNegative(warnRaw, 'warn-above-kb');
-  const fail = sanitizeNonNegative(failRaw, 'fail-above-kb');
+  const config = loadRepoConfig(core.getInput('config-path') || undefined);
+  if (config) {
+    core.info(
+      `Loaded config (${config.budgets.length} budget rules, ${config.routes.length} route budgets, ${config.variants.length} variants)`
+    );
+  }
+  const budget =
+    sanitizeNonNegative(budgetRaw, 'budget-max-increase-kb') ??
+    config?.budgetMaxIncreaseKb ??
+    null;
+  const warn =
+    sanitizeNonNegative(warnRaw, 'warn-above-kb') ??
+    config?.warnAboveKb ??
+    null;
+  const fail =
+    sanitizeNonNegative(failRaw, 'fail-above-kb') ??
+    config?.failAboveKb ??
+    null;
+  const budgetPercent =
+    sanitizeNonNegative(
+      readNumberInput(
+        'budget-max-increase-percent',
+        'budget-max-increase-percent must be a number (e.g., 5)'
+      ),
+      'budget-max-increase-percent'
+    ) ??
+    config?.budgetMaxIncreasePercent ??
+    null;
+  const warnPercent =
+    sanitizeNonNegative(
+      readNumberInput(
+        'warn-above-percent',
+        'warn-above-percent must be a number (e.g., 10)'
+      ),
+      'warn-above-percent'
+    ) ??
+    config?.warnAbovePercent ??
+    null;
+  const failPercent =
+    sanitizeNonNegative(
+      readNumberInput(
+        'fail-above-percent',
+        'fail-above-percent must be a number (e.g., 25)'
+      ),
+      'fail-above-percent'
+    ) ??
+    config?.failAbovePercent ??
+    null;
+  const maxTotalKb =
+    sanitizeNonNegative(
+      readNumberInput(
+        'max-total-kb',
+        'max-total-kb must be a number (e.g., 250)'
+      ),
+      'max-total-kb'
+    ) ??
+    config?.maxTotalKb ??
+    null;
+  const maxFileKb =
+    sanitizeNonNegative(
+      readNumberInput(
+        'max-file-kb',
+        'max-file-kb must be a number (e.g., 100)'
+      ),
+      'max-file-kb'
+    ) ??
+    config?.maxFileKb ??
+    null;
 
   const commentMode = core.getInput('comment-mode') || 'always';
   if (!['always', 'on-increase', 'never'].includes(commentMode)) {
     throw new Error('comment-mode must be: always, on-increase, or never');
   }
 
-  const userProvidedPath = core.getInput('dist-path');
-  const outputPath = locateBuildOutput(userProvidedPath);
+  const mode = core.getInput('mode') || 'full';
+  if (!['full', 'analyze', 'report'].includes(mode)) {
+    throw new Error('mode must be: full, analyze, or report');
+  }
 
-  if (!outputPath) {
+  // The report phase never builds, so there is no output to locate. Variants
+  // name their own output directories.
+  const variants = config?.variants ?? [];
+  const workspaces = core.getInput('workspaces') === 'true';
+  if (workspaces && variants.length > 0) {
     throw new Error(
-      'Could not auto-detect output directory. ' +
-        'Please specify dist-path input (e.g., dist, build, out).'
+      'workspaces cannot be combined with variants in the config file'
     );
   }
+  const assetFilter = parseAssetFilter(
+    core.getInput('asset-categories'),
+    core.getInput('include'),
+    core.getInput('exclude')
+  );
+  let distPath = '';
+  if (mode !== 'report' && variants.length === 0 && !workspaces) {
+    const userProvidedPath = core.getInput('dist-path');
+    const outputPath = locateBuildOutput(userProvidedPath, assetFilter);
+
+    if (!outputPath) {
+      throw new Error(
+        'Could not auto-detect output directory. ' +
+          'Please specify dist-path input (e.g., dist, build, out).'
+      );
+    }
 
-  core.info(`Using output path: ${outputPath.path} (mode: ${outputPath.mode})`);
-  if (outputPath.mode === 'auto') {
-    core.info(`Auto-detection: ${outputPath.reason}`);
+    core.info(
+      `Using output path: ${outputPath.path} (mode: ${outputPath.mode})`
+    );
+    if (outputPath.mode === 'auto') {
+      core.info(`Auto-detection: ${outputPath.reason}`);
+    }
+    distPath = outputPath.path;
   }
 
   const timeoutStr = core.getInput('build-timeout-minutes') || '15';
@@ -206,22 +921,131 @@ function readActionInputs(): ActionInputs {
     );
   }
 
+  const hashPatternStr = core.getInput('hash-pattern');
+  let hashPattern: RegExp | null = null;
+  if (hashPatternStr) {
+    try {
+      hashPattern = new RegExp(hashPatternStr, 'g');
+    } catch {
+      throw new Error('hash-pattern must be a valid regular expression');
+    }
+  }
+
+  const historySizeStr = core.getInput('history-size') || '30';
+  const historySize = parseInt(historySizeStr, 10);
+  if (isNaN(historySize) || historySize <= 0) {
+    throw new Error('history-size must be a positive integer (e.g., 30)');
+  }
+
+  const topChangesLimit = parseInt(
+    core.getInput('top-changes-limit') || '5',
+    10
+  );
+  if (isNaN(topChangesLimit) || topChangesLimit < 0) {
+    throw new Error(
+      'top-changes-limit must be a non-negative integer (e.g., 10)'
+    );
+  }
+
+  const baselineStorage = core.getInput('baseline-storage') || 'artifact';
+  if (!['artifact', 'git-branch', 'local'].includes(baselineStorage)) {
+    throw new Error('baseline-storage must be: artifact, git-branch, or local');
+  }
+  const baselineDir = core.getInput('baseline-dir');
+  if (baselineStorage === 'local' && !baselineDir) {
+    throw new Error('baseline-dir is required when baseline-storage is local');
+  }
+
+  const baselineMode = core.getInput('baseline-mode') || 'latest';
+  if (!['latest', 'merge-base'].includes(baselineMode)) {
+    throw new Error('baseline-mode must be: latest or merge-base');
+  }
+
+  const buildBaseline = core.getInput('build-baseline') === 'true';
+
+  const baselineMaxAgeDays = sanitizeNonNegative(
+    readNumberInput(
+      'baseline-max-age-days',
+      'baseline-max-age-days must be a number (e.g., 14)'
+    ),
+    'baseline-max-age-days'
+  );
+  const staleBaseline = core.getInput('stale-baseline') || 'warn';
+  if (!['warn', 'skip'].includes(staleBaseline)) {
+    throw new Error('stale-baseline must be: warn or skip');
+  }
+
+  const nondeterministicMode =
+    core.getInput('nondeterministic-files') || 'flag';
+  if (!['flag', 'exclude'].includes(nondeterministicMode)) {
+    throw new Error('nondeterministic-files must be: flag or exclude');
+  }
+
+  const gzip = core.getInput('gzip') !== 'false';
+  const brotli = core.getInput('brotli') !== 'false';
+  const metricLimits = readMetricLimits(config);
+  for (const [metric, enabled] of [
+    ['gzip', gzip],
+    ['brotli', brotli],
+  ] as const) {
+    if (metricLimits[metric] && !enabled) {
+      core.warning(
+        `${metric} limits are set but ${metric} is disabled; ignoring.`
+      );
+    }
+  }
+
   return {
     buildCommand: core.getInput('build-command') || 'npm run build',
     buildTimeoutMs: timeoutMinutes * 60 * 1000,
     allowUnsafeBuild,
     failOnStderr,
-    distPath: outputPath.path,
-    gzip: core.getInput('gzip') !== 'false',
-    brotli: core.getInput('brotli') !== 'false',
+    distPath,
+    gzip,
+    brotli,
     budgetMaxIncreaseKb: budget,
     warnAboveKb: warn,
     failAboveKb: fail,
+    budgetMaxIncreasePercent: budgetPercent,
+    warnAbovePercent: warnPercent,
+    failAbovePercent: failPercent,
+    maxTotalKb,
+    maxFileKb,
+    metricLimits,
     commentMode: commentMode as ActionInputs['commentMode'],
     failOnCommentError,
     skipInstall,
     githubToken: core.getInput('github-token', { required: true }),
     maxArtifactPages,
+    hashPattern,
+    budgetRules: config?.budgets ?? [],
+    routeBudgets: config?.routes ?? [],
+    sourceMaps: core.getInput('source-maps') === 'true',
+    // Metadata describes one build output, not a set of packages.
+    bundleMetadata: workspaces
+      ? null
+      : core.getInput('bundle-metadata') || null,
+    assetFilter,
+    historySize,
+    topChangesLimit,
+    baselineMaxAgeDays,
+    staleBaseline: staleBaseline as ActionInputs['staleBaseline'],
+    baselineStorage: baselineStorage as ActionInputs['baselineStorage'],
+    baselineBranch: core.getInput('baseline-branch') || 'bundle-stats',
+    baselineDir,
+    baselineMode: baselineMode as ActionInputs['baselineMode'],
+    buildBaseline,
+    determinismCheck: core.getInput('determinism-check') === 'true',
+    variants,
+    workspaces,
+    packageLimits: config?.packages ?? {},
+    nondeterministicMode:
+      nondeterministicMode as ActionInputs['nondeterministicMode'],
+    mode: mode as ActionInputs['mode'],
+    checkRun: core.getInput('check-run') === 'true',
+    checkName: core.getInput('check-name') || 'Bundle size',
+    reportPath: core.getInput('report-path') || null,
+    treemap: core.getInput('treemap') === 'true',
   };
 }
 
@@ -241,18 +1065,40 @@ function getDefaultBranchRefs(): string[] {
   return getDefaultBranchNames().map((name) => `refs/heads/${name}`);
 }
 
-function publishOutputs(
+// Ceilings and maxKb budgets, which need no baseline.
+function evaluateAbsoluteLimits(
   current: BundleStats,
-  diff: DiffResult | null,
+  inputs: ActionInputs
+): BudgetViolation[] {
+  const metric = resolveCompareMetric(inputs.gzip, inputs.brotli);
+  return [
+    ...evaluateSizeCeilings(current, diffOptionsFrom(inputs)),
+    ...evaluateBudgetRules(inputs.budgetRules, null, current, metric),
+    ...diffRoutes(null, current, inputs.routeBudgets, metric).violations,
+  ].filter((v) => v.kind === 'max');
+}
+
+function failOnCeilings(ceilings: BudgetViolation[]): void {
+  if (ceilings.length === 0) return;
+  core.setFailed(
+    `Size limit exceeded: ${ceilings.map((v) => v.message).join('; ')}`
+  );
+}
+
+// Sizes and diffs of several variants add up.
+function publishOutputs(
+  currents: BundleStats[],
+  diffs: DiffResult[],
   status: string
 ): void {
-  core.setOutput('total-size', current.totalSize);
-  core.setOutput('total-gzip', current.totalGzip);
-  core.setOutput('total-brotli', current.totalBrotli);
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  core.setOutput('total-size', sum(currents.map((c) => c.totalSize)));
+  core.setOutput('total-gzip', sum(currents.map((c) => c.totalGzip)));
+  core.setOutput('total-brotli', sum(currents.map((c) => c.totalBrotli)));
   core.setOutput('status', status);
-  core.setOutput('diff-size', diff?.diffSize ?? 0);
-  core.setOutput('diff-gzip', diff?.diffGzip ?? 0);
-  core.setOutput('diff-brotli', diff?.diffBrotli ?? 0);
+  core.setOutput('diff-size', sum(diffs.map((d) => d.diffSize)));
+  core.setOutput('diff-gzip', sum(diffs.map((d) => d.diffGzip)));
+  core.setOutput('diff-brotli', sum(diffs.map((d) => d.diffBrotli)));
 }
 
 run();
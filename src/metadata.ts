@@ -0,0 +1,340 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChunkGraph, ChunkNode } from './types';
+
+export interface ChunkAnalysis {
+  initial: boolean;
+  entries: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string')
+    : [];
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function parseViteManifest(manifest: JsonObject): ChunkGraph {
+  const fileOf = (key: string): string | null => {
+    const entry = manifest[key];
+    return isObject(entry) && typeof entry.file === 'string'
+      ? toPosix(entry.file)
+      : null;
+  };
+
+  const chunks: ChunkNode[] = [];
+  const entries: ChunkGraph['entries'] = [];
+
+  for (const [key, value] of Object.entries(manifest)) {
+    if (!isObject(value) || typeof value.file !== 'string') continue;
+    const file = toPosix(value.file);
+    const css = stringArray(value.css).map(toPosix);
+    const imports = [
+      ...stringArray(value.imports)
+        .map(fileOf)
+        .filter((f): f is string => !!f),
+      ...css,
+    ];
+    const dynamicImports = stringArray(value.dynamicImports)
+      .map(fileOf)
+      .filter((f): f is string => !!f);
+
+    chunks.push({ file, imports, dynamicImports });
+    for (const cssFile of css) {
+      chunks.push({ file: cssFile, imports: [], dynamicImports: [] });
+    }
+    if (value.isEntry === true) {
+      entries.push({
+        name: typeof value.src === 'string' ? value.src : key,
+        files: [file],
+      });
+    }
+  }
+
+  return { format: 'vite', entries, chunks: dedupeChunks(chunks) };
+}
+
+function parseEsbuildMetafile(
+  metafile: JsonObject,
+  distPath: string
+): ChunkGraph {
+  const outputs = isObject(metafile.outputs) ? metafile.outputs : {};
+  const relative = (output: string): string =>
+    toPosix(path.relative(distPath, output));
+
+  const chunks: ChunkNode[] = [];
+  const dynamicTargets = new Set<string>();
+  const entryCandidates: Array<{ name: string; file: string }> = [];
+
+  for (const [outputPath, value] of Object.entries(outputs)) {
+    if (!isObject(value)) continue;
+    const file = relative(outputPath);
+    const imports: string[] = [];
+    const dynamicImports: string[] = [];
+
+    for (const item of Array.isArray(value.imports) ? value.imports : []) {
+      if (!isObject(item) || typeof item.path !== 'string') continue;
+      if (item.external === true) continue;
+      const target = relative(item.path);
+      if (item.kind === 'dynamic-import') {
+        dynamicImports.push(target);
+        dynamicTargets.add(target);
+      } else {
+        imports.push(target);
+      }
+    }
+    if (typeof value.cssBundle === 'string') {
+      imports.push(relative(value.cssBundle));
+    }
+
+    chunks.push({ file, imports, dynamicImports });
+    if (typeof value.entryPoint === 'string') {
+      entryCandidates.push({ name: value.entryPoint, file });
+    }
+  }
+
+  // esbuild marks dynamically imported modules as entry points too.
+  const entries = entryCandidates
+    .filter((candidate) => !dynamicTargets.has(candidate.file))
+    .map((candidate) => ({ name: candidate.name, files: [candidate.file] }));
+
+  return { format: 'esbuild', entries, chunks };
+}
+
+function parseWebpackStats(stats: JsonObject): ChunkGraph {
+  const rawChunks = Array.isArray(stats.chunks)
+    ? stats.chunks.filter(isObject)
+    : [];
+  const filesById = new Map<string, string[]>();
+  const childrenById = new Map<string, Set<string>>();
+
+  for (const chunk of rawChunks) {
+    const id = String(chunk.id);
+    filesById.set(id, stringArray(chunk.files).map(toPosix));
+    const children = childrenById.get(id) ?? new Set<string>();
+    for (const child of Array.isArray(chunk.children) ? chunk.children : []) {
+      children.add(String(child));
+    }
+    childrenById.set(id, children);
+  }
+  for (const chunk of rawChunks) {
+    for (const parent of Array.isArray(chunk.parents) ? chunk.parents : []) {
+      const siblings = childrenById.get(String(parent)) ?? new Set<string>();
+      siblings.add(String(chunk.id));
+      childrenById.set(String(parent), siblings);
+    }
+  }
+
+  const chunks: ChunkNode[] = [];
+  for (const [id, files] of filesById) {
+    const dynamicImports = Array.from(childrenById.get(id) ?? []).flatMap(
+      (child) => filesById.get(child) ?? []
+    );
+    for (const file of files) {
+      chunks.push({
+        file,
+        imports: files.filter((f) => f !== file),
+        dynamicImports,
+      });
+    }
+  }
+
+  const entrypoints = isObject(stats.entrypoints) ? stats.entrypoints : {};
+  const entries: ChunkGraph['entries'] = [];
+  for (const [name, value] of Object.entries(entrypoints)) {
+    if (!isObject(value)) continue;
+    // webpack 4 lists asset names, webpack 5 lists { name, size } objects.
+    const assets = (Array.isArray(value.assets) ? value.assets : [])
+      .map((asset) =>
+        typeof asset === 'string'
+          ? asset
+          : isObject(asset) && typeof asset.name === 'string'
+            ? asset.name
+            : null
+      )
+      .filter((asset): asset is string => !!asset)
+      .map(toPosix);
+    entries.push({ name, files: assets });
+  }
+
+  return { format: 'webpack', entries, chunks: dedupeChunks(chunks) };
+}
+
+function parseNextManifest(manifest: JsonObject): ChunkGraph {
+  const pages = isObject(manifest.pages) ? manifest.pages : {};
+  const sharedFiles = [
+    ...stringArray(manifest.polyfillFiles),
+    ...stringArray(manifest.rootMainFiles),
+    // Pages router: every page also loads the custom _app bundle.
+    ...stringArray(pages['/_app']),
+  ].map(toPosix);
+
+  const entries: ChunkGraph['entries'] = [];
+  const chunks: ChunkNode[] = [];
+
+  for (const [key, value] of Object.entries(pages)) {
+    const files = stringArray(value).map(toPosix);
+    for (const file of files) {
+      chunks.push({ file, imports: [], dynamicImports: [] });
+    }
+
+    let route: string | null = null;
+    if (/(^|\/)page$/.test(key)) {
+      // app-build-manifest keys look like "/blog/[slug]/page" or "app/page".
+      route = key.replace(/^\/?app/, '').replace(/\/?page$/, '') || '/';
+      if (!route.startsWith('/')) route = `/${route}`;
+    } else if (!key.startsWith('/_')) {
+      route = key;
+    }
+    if (!route) continue;
+
+    entries.push({
+      name: route,
+      files: [...new Set([...sharedFiles, ...files])],
+    });
+  }
+
+  for (const file of sharedFiles) {
+    chunks.push({ file, imports: [], dynamicImports: [] });
+  }
+
+  return { format: 'next', entries, chunks: dedupeChunks(chunks) };
+}
+
+function dedupeChunks(chunks: ChunkNode[]): ChunkNode[] {
+  const byFile = new Map<string, ChunkNode>();
+  for (const chunk of chunks) {
+    const existing = byFile.get(chunk.file);
+    if (!existing) {
+      byFile.set(chunk.file, {
+        file: chunk.file,
+        imports: [...new Set(chunk.imports)],
+        dynamicImports: [...new Set(chunk.dynamicImports)],
+      });
+      continue;
+    }
+    existing.imports = [...new Set([...existing.imports, ...chunk.imports])];
+    existing.dynamicImports = [
+      ...new Set([...existing.dynamicImports, ...chunk.dynamicImports]),
+    ];
+  }
+  return Array.from(byFile.values());
+}
+
+export function parseChunkGraph(raw: unknown, distPath: string): ChunkGraph {
+  if (!isObject(raw)) {
+    throw new Error('metadata must be a JSON object');
+  }
+  if (isObject(raw.outputs) && isObject(raw.inputs)) {
+    return parseEsbuildMetafile(raw, distPath);
+  }
+  if (isObject(raw.pages)) {
+    return parseNextManifest(raw);
+  }
+  if (Array.isArray(raw.chunks) || isObject(raw.entrypoints)) {
+    return parseWebpackStats(raw);
+  }
+  const values = Object.values(raw);
+  if (values.length > 0 && values.every((v) => isObject(v) && 'file' in v)) {
+    return parseViteManifest(raw);
+  }
+  throw new Error(
+    'unrecognized format (expected webpack stats.json, esbuild metafile, Vite manifest or Next.js build manifest)'
+  );
+}
+
+export function loadChunkGraph(
+  metadataPath: string,
+  distPath: string
+): ChunkGraph {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read bundle metadata ${metadataPath}: ${message}`);
+  }
+  try {
+    const graph = parseChunkGraph(raw, distPath);
+    // Next.js writes app router routes to a sibling manifest.
+    const appManifest = path.join(
+      path.dirname(metadataPath),
+      'app-build-manifest.json'
+    );
+    if (
+      graph.format === 'next' &&
+      path.basename(metadataPath) === 'build-manifest.json' &&
+      fs.existsSync(appManifest)
+    ) {
+      const appGraph = parseNextManifest(
+        JSON.parse(fs.readFileSync(appManifest, 'utf-8'))
+      );
+      graph.entries.push(...appGraph.entries);
+      graph.chunks = dedupeChunks([...graph.chunks, ...appGraph.chunks]);
+    }
+    return graph;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid bundle metadata ${metadataPath}: ${message}`);
+  }
+}
+
+export function collectInitialFiles(
+  graph: ChunkGraph,
+  entryFiles: string[]
+): Set<string> {
+  const nodes = new Map(graph.chunks.map((chunk) => [chunk.file, chunk]));
+  const seen = new Set<string>();
+  const queue = [...entryFiles];
+  while (queue.length > 0) {
+    const file = queue.shift();
+    if (file === undefined || seen.has(file)) continue;
+    seen.add(file);
+    queue.push(...(nodes.get(file)?.imports ?? []));
+  }
+  return seen;
+}
+
+export function analyzeChunkGraph(
+  graph: ChunkGraph
+): Map<string, ChunkAnalysis> {
+  const nodes = new Map(graph.chunks.map((chunk) => [chunk.file, chunk]));
+  const analysis = new Map<string, ChunkAnalysis>();
+  const ensure = (file: string): ChunkAnalysis => {
+    let entry = analysis.get(file);
+    if (!entry) {
+      entry = { initial: false, entries: [] };
+      analysis.set(file, entry);
+    }
+    return entry;
+  };
+
+  for (const entry of graph.entries) {
+    for (const file of collectInitialFiles(graph, entry.files)) {
+      ensure(file).initial = true;
+    }
+
+    const queue = [...entry.files];
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+      const file = queue.shift();
+      if (file === undefined || seen.has(file)) continue;
+      seen.add(file);
+      const info = ensure(file);
+      if (!info.entries.includes(entry.name)) info.entries.push(entry.name);
+      const node = nodes.get(file);
+      if (node) queue.push(...node.imports, ...node.dynamicImports);
+    }
+  }
+
+  return analysis;
+}
@@ -0,0 +1,558 @@
+import {
+  BaselineFreshness,
+  BaselineSource,
+  BundleStats,
+  CompareMetric,
+  DiffResult,
+  FileChange,
+  MetricCheck,
+} from './types';
+import { formatBytes } from './scan';
+import { buildTrendMarkdown, historyEntry } from './history';
+import { combineStatuses } from './compare';
+
+export interface DiffMetrics {
+  diffSize: number;
+  diffGzip: number;
+  diffBrotli: number;
+  diffPercentSize: number;
+  diffPercentGzip: number;
+  diffPercentBrotli: number;
+  sizeEmoji: string;
+  gzipEmoji: string;
+  brotliEmoji: string;
+}
+
+export function getChangeEmoji(value: number): string {
+  if (value > 0) return '🔴 ↑';
+  if (value < 0) return '🟢 ↓';
+  return '➖';
+}
+
+export function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+export function calculateDiffMetrics(
+  current: BundleStats,
+  baseline: BundleStats
+): DiffMetrics {
+  const diffSize = current.totalSize - baseline.totalSize;
+  const diffGzip = current.totalGzip - baseline.totalGzip;
+  const diffBrotli = current.totalBrotli - baseline.totalBrotli;
+  const diffPercentSize =
+    baseline.totalSize > 0 ? (diffSize / baseline.totalSize) * 100 : 0;
+  const diffPercentGzip =
+    baseline.totalGzip > 0 ? (diffGzip / baseline.totalGzip) * 100 : 0;
+  const diffPercentBrotli =
+    baseline.totalBrotli > 0 ? (diffBrotli / baseline.totalBrotli) * 100 : 0;
+
+  return {
+    diffSize,
+    diffGzip,
+    diffBrotli,
+    diffPercentSize,
+    diffPercentGzip,
+    diffPercentBrotli,
+    sizeEmoji: getChangeEmoji(diffSize),
+    gzipEmoji: getChangeEmoji(diffGzip),
+    brotliEmoji: getChangeEmoji(diffBrotli),
+  };
+}
+
+export function describeBaselineFreshness(
+  freshness: BaselineFreshness
+): string {
+  const parts: string[] = [];
+  if (freshness.ageDays !== null) {
+    const days = Math.floor(freshness.ageDays);
+    parts.push(
+      days === 0 ? 'recorded today' : `${days} day${days === 1 ? '' : 's'} old`
+    );
+  }
+  if (freshness.relation === 'ancestor' && freshness.commitsBehind) {
+    parts.push(
+      `${freshness.commitsBehind} commit${freshness.commitsBehind === 1 ? '' : 's'} behind PR base`
+    );
+  } else if (freshness.relation === 'descendant') {
+    parts.push('newer than PR base');
+  } else if (freshness.relation === 'diverged') {
+    parts.push('not in PR base history');
+  } else if (freshness.relation === 'missing') {
+    parts.push('commit no longer exists');
+  }
+  return parts.join(', ');
+}
+
+export function describeBaselineSource(source: BaselineSource): string {
+  const compared = `Baseline: ${source.commit.slice(0, 7)}`;
+  if (source.origin === 'local-build') {
+    return `${compared} (built locally${source.mergeBase ? ' at merge-base' : ' from base ref'})`;
+  }
+  if (!source.mergeBase) return compared;
+  const mergeBase = source.mergeBase.slice(0, 7);
+  if (source.distance === 0) return `${compared} (merge-base)`;
+  if (source.distance === null) {
+    return `${compared} (latest on base branch; no baseline found for merge-base ${mergeBase} or its ancestors)`;
+  }
+  return `${compared} (${source.distance} commit${source.distance === 1 ? '' : 's'} before merge-base ${mergeBase})`;
+}
+
+// GitHub rejects comment bodies longer than 65,536 characters.
+export const COMMENT_MAX_LENGTH = 65536;
+// Room for the marker comment that identifies our comment on the PR.
+const COMMENT_RESERVE = 200;
+
+function formatDelta(diff: number): string {
+  return `${diff >= 0 ? '+' : ''}${formatBytes(diff)} ${getChangeEmoji(diff)}`;
+}
+
+// File, chunk, module and route names can come from a fork's build in report
+// mode. Inside a code span only backticks, pipes and line breaks matter;
+// links, HTML and @mentions are not rendered there.
+export function codeSpan(text: string): string {
+  const safe = text
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/`/g, "'")
+    .replace(/\|/g, '\\|');
+  return `\`${safe}\``;
+}
+
+// For names outside code spans; the zero-width space keeps "@user" from
+// becoming a mention.
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/[\\`*_[\]|]/g, '\\$&')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/@/g, '@\u200b');
+}
+
+function labelChange(change: FileChange, name: string): string {
+  const label = codeSpan(describeChange(change, name));
+  return change.nondeterministic ? `${label} 🎲` : label;
+}
+
+function describeChange(change: FileChange, name: string): string {
+  if (change.similarity !== undefined && change.previousFile) {
+    return `R ${change.previousFile} → ${change.file}`;
+  }
+  const marker =
+    change.before === 0 && change.after > 0
+      ? '+'
+      : change.after === 0 && change.before > 0
+        ? '-'
+        : '~';
+  return `${marker} ${name}`;
+}
+
+function directoryOf(file: string): string {
+  const normalized = file.replace(/\\/g, '/');
+  const slash = normalized.lastIndexOf('/');
+  return slash === -1 ? './' : `${normalized.slice(0, slash)}/`;
+}
+
+// Every changed file grouped by directory, largest directory change first.
+// Rows past maxLength are dropped, smallest directory changes first.
+export function buildChangedFilesMarkdown(
+  changes: FileChange[],
+  maxLength: number,
+  overflowHint: string
+): string {
+  const groups = new Map<string, FileChange[]>();
+  for (const change of changes) {
+    const dir = directoryOf(change.file);
+    groups.set(dir, [...(groups.get(dir) ?? []), change]);
+  }
+  const ordered = Array.from(groups, ([dir, files]) => ({
+    dir,
+    files,
+    subtotal: files.reduce((sum, f) => sum + f.diff, 0),
+  })).sort((a, b) => Math.abs(b.subtotal) - Math.abs(a.subtotal));
+
+  const open = `
+<details>
+<summary>All changed files (${changes.length} files in ${ordered.length} directories)</summary>
+
+| File | Before | After | Diff |
+|------|--------|-------|------|
+`;
+  const close = `\n</details>\n`;
+  // Space for the omission note, which is only known at the end.
+  const noteReserve = 80 + overflowHint.length;
+  let budget = maxLength - open.length - close.length - noteReserve;
+  if (budget <= 0) return '';
+
+  let rows = '';
+  let shown = 0;
+  const append = (row: string): boolean => {
+    if (row.length > budget) return false;
+    budget -= row.length;
+    rows += row;
+    return true;
+  };
+  let full = false;
+  for (const group of ordered) {
+    const before = group.files.reduce((sum, f) => sum + f.before, 0);
+    const after = group.files.reduce((sum, f) => sum + f.after, 0);
+    const header = `| **${escapeMarkdown(group.dir)}** (${group.files.length}) | ${formatBytes(before)} | ${formatBytes(after)} | ${formatDelta(group.subtotal)} |\n`;
+    if (full || !append(header)) break;
+    for (const change of group.files) {
+      const name =
+        group.dir === './'
+          ? change.file
+          : change.file.replace(/\\/g, '/').slice(group.dir.length);
+      const row = `| ${labelChange(change, name)} | ${formatBytes(change.before)} | ${formatBytes(change.after)} | ${formatDelta(change.diff)} |\n`;
+      if (!append(row)) {
+        full = true;
+        break;
+      }
+      shown++;
+    }
+  }
+
+  if (shown === 0) return '';
+  const note =
+    shown < changes.length
+      ? `\n<sub>${changes.length - shown} more changed files not shown. ${overflowHint}</sub>\n`
+      : '';
+  return `${open}${rows}${note}${close}`;
+}
+
+// Rows past maxLength are dropped, smallest changes first.
+function buildTopChangesMarkdown(
+  changes: FileChange[],
+  maxLength: number
+): string {
+  const showEntries = changes.some((c) => c.entries);
+  const open = `
+### Top Changes
+
+| File | Before | After | Diff |${showEntries ? ' Entry |' : ''}
+|------|--------|-------|------|${showEntries ? '-------|' : ''}
+`;
+  // Space for the omission note, which is only known at the end.
+  let budget = maxLength - open.length - 80;
+
+  let rows = '';
+  let shown = 0;
+  for (const change of changes) {
+    const row = `| ${labelChange(change, change.file)} | ${formatBytes(change.before)} | ${formatBytes(change.after)} | ${formatDelta(change.diff)} |${showEntries ? ` ${change.entries ? escapeMarkdown(change.entries.join(', ')) : '-'} |` : ''}\n`;
+    if (row.length > budget) break;
+    budget -= row.length;
+    rows += row;
+    shown++;
+  }
+
+  if (shown === 0) return '';
+  const note =
+    shown < changes.length
+      ? `\n<sub>${changes.length - shown} more top changes not shown.</sub>\n`
+      : '';
+  return `${open}${rows}${note}`;
+}
+
+const TRUNCATED_NOTE = `\n\n<sub>Report truncated to fit the comment size limit.</sub>\n`;
+
+// Last resort when the fixed sections alone exceed maxLength.
+function truncateMarkdown(markdown: string, maxLength: number): string {
+  if (markdown.length <= maxLength) return markdown;
+  const keep = Math.max(maxLength - TRUNCATED_NOTE.length, 0);
+  return `${markdown.slice(0, keep)}${TRUNCATED_NOTE}`.slice(0, maxLength);
+}
+
+const STATUS_LABELS: Record<DiffResult['status'], string> = {
+  pass: '✅ PASS',
+  fail: '❌ FAIL',
+  'no-baseline': 'ℹ️ NO BASELINE',
+  'stale-baseline': '⚠️ STALE BASELINE',
+  'baseline-updated': '✅ UPDATED',
+};
+
+export function buildCommentMarkdown(
+  diff: DiffResult,
+  maxLength: number = COMMENT_MAX_LENGTH - COMMENT_RESERVE,
+  heading: string = '## Bundle Size Report'
+): string {
+  const statusEmoji = STATUS_LABELS[diff.status];
+
+  const diffSizeEmoji = getChangeEmoji(diff.diffSize);
+  const diffEmoji = getChangeEmoji(diff.diffGzip);
+  const diffBrotliEmoji = getChangeEmoji(diff.diffBrotli);
+
+  let body = `${heading} ${statusEmoji}
+
+| Metric | Size | Gzip | Brotli |
+|--------|------|------|--------|
+| **Total** | ${formatBytes(diff.current.totalSize)} | ${formatBytes(diff.current.totalGzip)} | ${formatBytes(diff.current.totalBrotli)} |
+| **Diff** | ${diff.diffSize >= 0 ? '+' : ''}${formatBytes(diff.diffSize)} ${diffSizeEmoji} | ${diff.diffGzip >= 0 ? '+' : ''}${formatBytes(diff.diffGzip)} ${diffEmoji} | ${diff.diffBrotli >= 0 ? '+' : ''}${formatBytes(diff.diffBrotli)} ${diffBrotliEmoji} |
+| **Change** | ${formatPercent(diff.diffPercentSize)} | ${formatPercent(diff.diffPercentGzip)} | ${formatPercent(diff.diffPercentBrotli)} |`;
+
+  const checkFor = (metric: CompareMetric) =>
+    diff.metricChecks.find((check) => check.metric === metric);
+  const limitRow = (
+    label: string,
+    cell: (check: MetricCheck) => string | null
+  ) => {
+    const cells = (['size', 'gzip', 'brotli'] as const).map((metric) => {
+      const check = checkFor(metric);
+      return (check && cell(check)) ?? '-';
+    });
+    if (cells.every((c) => c === '-')) return;
+    body += `\n| **${label}** | ${cells.join(' | ')} |`;
+  };
+
+  limitRow('Budget Limit', ({ limits, budgetMessage }) => {
+    const parts: string[] = [];
+    if (limits.budgetKb !== null) {
+      parts.push(formatBytes(limits.budgetKb * 1024));
+    }
+    if (limits.budgetPercent !== null) parts.push(`${limits.budgetPercent}%`);
+    if (parts.length === 0) return null;
+    return `${parts.join(' / ')} ${budgetMessage ? '❌' : '✅'}`;
+  });
+  limitRow('File Threshold', ({ limits, thresholdStatus }) => {
+    const describe = (kb: number | null, percent: number | null) =>
+      [kb !== null ? `${kb} KB` : null, percent !== null ? `${percent}%` : null]
+        .filter((part): part is string => part !== null)
+        .join(' / ');
+    const parts: string[] = [];
+    const warnAt = describe(limits.warnKb, limits.warnPercent);
+    const failAt = describe(limits.failKb, limits.failPercent);
+    if (warnAt) parts.push(`warn ${warnAt}`);
+    if (failAt) parts.push(`fail ${failAt}`);
+    if (parts.length === 0) return null;
+    const emoji = { ok: '✅', warn: '⚠️', fail: '❌' }[thresholdStatus];
+    return `${parts.join(', ')} ${emoji}`;
+  });
+  limitRow('Size Ceiling', ({ metric, limits }) => {
+    const parts: string[] = [];
+    if (limits.maxTotalKb !== null) {
+      parts.push(`total ${formatBytes(limits.maxTotalKb * 1024)}`);
+    }
+    if (limits.maxFileKb !== null) {
+      parts.push(`file ${formatBytes(limits.maxFileKb * 1024)}`);
+    }
+    if (parts.length === 0) return null;
+    const exceeded = diff.ceilingViolations.some((v) => v.metric === metric);
+    return `${parts.join(', ')} ${exceeded ? '❌' : '✅'}`;
+  });
+
+  body += '\n';
+
+  if (diff.categoryChanges.length > 1) {
+    body += `
+### By Category
+
+| Category | Size | Gzip | Brotli | Diff (${diff.compareMetric}) |
+|----------|------|------|--------|------|
+`;
+    for (const change of diff.categoryChanges) {
+      const after = change.after;
+      let diffCell = '-';
+      if (change.before) {
+        const delta =
+          after[diff.compareMetric] - change.before[diff.compareMetric];
+        diffCell = `${delta >= 0 ? '+' : ''}${formatBytes(delta)} ${getChangeEmoji(delta)}`;
+      }
+      body += `| ${change.category} | ${formatBytes(after.size)} | ${formatBytes(after.gzip)} | ${formatBytes(after.brotli)} | ${diffCell} |\n`;
+    }
+    if (diff.current.files.some((f) => f.precompressed)) {
+      body += `\n<sub>Already-compressed formats (woff2, png, jpg, webp, ...) report their raw size for gzip/brotli.</sub>\n`;
+    }
+  }
+
+  if (diff.loadSplit) {
+    const split = diff.loadSplit;
+    const row = (label: string, before: number | null, after: number) => {
+      if (before === null) {
+        return `| **${label}** | - | ${formatBytes(after)} | - |\n`;
+      }
+      const change = after - before;
+      return `| **${label}** | ${formatBytes(before)} | ${formatBytes(after)} | ${change >= 0 ? '+' : ''}${formatBytes(change)} ${getChangeEmoji(change)} |\n`;
+    };
+    body += `
+### Load Split (${diff.compareMetric})
+
+| Load | Before | After | Diff |
+|------|--------|-------|------|
+`;
+    body += row('Initial', split.initialBefore, split.initialAfter);
+    body += row('Lazy', split.lazyBefore, split.lazyAfter);
+    if (split.otherAfter > 0 || (split.otherBefore ?? 0) > 0) {
+      body += row('Other', split.otherBefore, split.otherAfter);
+    }
+  }
+
+  if (diff.routes.length > 0) {
+    body += `
+### Routes (first load)
+
+| Route | Gzip | Brotli | Diff (${diff.compareMetric}) | Budget |
+|-------|------|--------|------|--------|
+`;
+    for (const route of diff.routes) {
+      const after = route.after;
+      const metricBefore = route.before?.[diff.compareMetric] ?? 0;
+      const metricAfter = after?.[diff.compareMetric] ?? 0;
+      const change = metricAfter - metricBefore;
+      const diffCell = !route.before
+        ? 'new'
+        : !after
+          ? 'removed'
+          : `${change >= 0 ? '+' : ''}${formatBytes(change)} ${getChangeEmoji(change)}`;
+      const budgetCell =
+        route.budgetStatus === 'fail'
+          ? '❌'
+          : route.budgetStatus === 'pass'
+            ? '✅'
+            : '-';
+      body += `| ${codeSpan(route.route)} | ${after ? formatBytes(after.gzip) : '-'} | ${after ? formatBytes(after.brotli) : '-'} | ${diffCell} | ${budgetCell} |\n`;
+    }
+  }
+
+  // Top changes and the file list are sized last, once everything else in
+  // the comment is known.
+  const head = body;
+  body = '';
+
+  if (diff.moduleChanges.length > 0) {
+    body += `
+### Top Module Changes
+
+<sub>Raw bytes attributed via source maps.</sub>
+
+| Module | Before | After | Diff |
+|--------|--------|-------|------|
+`;
+    for (const change of diff.moduleChanges) {
+      const label =
+        change.before === 0
+          ? `${change.name} (new)`
+          : change.after === 0
+            ? `${change.name} (removed)`
+            : change.name;
+      const icon = change.kind === 'package' ? '📦' : '📁';
+      const changeEmoji = getChangeEmoji(change.diff);
+      body += `| ${icon} ${codeSpan(label)} | ${formatBytes(change.before)} | ${formatBytes(change.after)} | ${change.diff >= 0 ? '+' : ''}${formatBytes(change.diff)} ${changeEmoji} |\n`;
+    }
+  }
+
+  if (diff.baseline?.history) {
+    body += buildTrendMarkdown(
+      diff.baseline.history,
+      diff.compareMetric,
+      historyEntry(diff.current)
+    );
+  }
+
+  if (diff.thresholdMessage) {
+    const label = diff.thresholdStatus === 'fail' ? '❌ FAIL' : '⚠️ WARN';
+    body += `\n> ${label} **Threshold:** ${escapeMarkdown(diff.thresholdMessage)}\n`;
+  }
+
+  if (diff.budgetViolations.length > 0) {
+    body += `\n### Budget Rules\n\n`;
+    for (const violation of diff.budgetViolations) {
+      body += `- ❌ ${escapeMarkdown(violation.message)}\n`;
+    }
+  }
+
+  if (diff.ceilingViolations.length > 0) {
+    body += `\n### Size Ceilings\n\n`;
+    for (const violation of diff.ceilingViolations) {
+      body += `- ❌ ${escapeMarkdown(violation.message)}\n`;
+    }
+  }
+
+  if (diff.budgetMessage) {
+    body += `\n> ⚠️ WARN **Budget exceeded!** ${escapeMarkdown(diff.budgetMessage)}.\n`;
+  }
+
+  if (diff.baselineSource?.origin === 'local-build') {
+    body += `\n> ℹ️ INFO **Baseline built locally.** No stored baseline was found, so base commit ${diff.baselineSource.commit.slice(0, 7)} was built in a separate worktree for this comparison.\n`;
+  }
+
+  if (diff.baselineFreshness?.stale) {
+    body +=
+      diff.status === 'stale-baseline'
+        ? `\n> ⚠️ WARN **Stale baseline.** The ${diff.baselineFreshness.reason}, so size increases were not gated. Push to the base branch to record a fresh baseline.\n`
+        : `\n> ⚠️ WARN **Stale baseline.** The ${diff.baselineFreshness.reason}; the numbers above may include changes that are not part of this PR.\n`;
+  }
+
+  if (diff.nondeterministic) {
+    const count = diff.nondeterministic.files.length;
+    const files = `${count} file${count === 1 ? '' : 's'}`;
+    body += diff.nondeterministic.excluded
+      ? `\n> ℹ️ INFO **Non-deterministic build.** ${files} differed between two builds of this commit and ${count === 1 ? 'was' : 'were'} left out of this comparison.\n`
+      : `\n> ⚠️ WARN **Non-deterministic build.** ${files} differed between two builds of this commit; their changes are marked 🎲 and may be noise.\n`;
+  }
+
+  if (!diff.baseline) {
+    body += `\n> ℹ️ INFO **No baseline found.** Push to main branch first to create a baseline. Future PRs will show comparisons.\n`;
+  }
+
+  if (diff.treemapUrl) {
+    body += `\n📊 [Interactive treemap](${diff.treemapUrl}) (download the artifact and open the HTML file)\n`;
+  }
+
+  body += `\n<sub>Generated by build-size-diff Commit: ${escapeMarkdown(diff.current.commit.slice(0, 7))}`;
+  if (diff.baselineSource) {
+    body += ` · ${describeBaselineSource(diff.baselineSource)}`;
+  }
+  const freshness = diff.baselineFreshness
+    ? describeBaselineFreshness(diff.baselineFreshness)
+    : '';
+  if (freshness) {
+    body += ` · ${freshness}`;
+  }
+  body += `</sub>`;
+
+  const topChanges = buildTopChangesMarkdown(
+    diff.topChanges,
+    maxLength - head.length - body.length
+  );
+  let fileList = '';
+  if (diff.fileChanges.length > diff.topChanges.length) {
+    fileList = buildChangedFilesMarkdown(
+      diff.fileChanges,
+      maxLength - head.length - topChanges.length - body.length,
+      'Open the job summary of this workflow run for the full list.'
+    );
+  }
+  return truncateMarkdown(head + topChanges + fileList + body, maxLength);
+}
+
+// One comment for several build variants: an overview, then each variant's
+// report under its own heading.
+export function buildVariantsCommentMarkdown(
+  diffs: DiffResult[],
+  maxLength: number = COMMENT_MAX_LENGTH - COMMENT_RESERVE
+): string {
+  const status = combineStatuses(diffs.map((diff) => diff.status));
+  const metric = diffs[0]?.compareMetric ?? 'gzip';
+  const totalKey = {
+    size: 'totalSize',
+    gzip: 'totalGzip',
+    brotli: 'totalBrotli',
+  } as const;
+
+  let head = `## Bundle Size Report ${STATUS_LABELS[status]}
+
+| Variant | Status | Total (${metric}) | Diff |
+|---------|--------|-------|------|
+`;
+  for (const diff of diffs) {
+    const total = diff.current[totalKey[diff.compareMetric]];
+    const change = diff.baseline ? formatDelta(diff.diffMetric) : '-';
+    head += `| **${diff.variant}** | ${STATUS_LABELS[diff.status]} | ${formatBytes(total)} | ${change} |\n`;
+  }
+
+  // Each variant gets an equal share of the room left, separators included.
+  const share = Math.floor((maxLength - head.length) / diffs.length) - 1;
+  const sections = diffs.map((diff) =>
+    buildCommentMarkdown(diff, share, `## \`${diff.variant}\``)
+  );
+  return truncateMarkdown([head, ...sections].join('\n'), maxLength);
+}
@@ -0,0 +1,110 @@
+import {
+  BudgetViolation,
+  BundleStats,
+  CompareMetric,
+  RouteBudget,
+  RouteChange,
+  SizeTotals,
+} from './types';
+import { globToRegExp } from './utils';
+import { formatBytes } from './scan';
+import { collectInitialFiles } from './metadata';
+
+export function computeRouteSizes(stats: BundleStats): Map<string, SizeTotals> {
+  const routes = new Map<string, SizeTotals>();
+  const graph = stats.chunkGraph;
+  if (!graph) return routes;
+
+  const filesByPath = new Map(
+    stats.files.map((f) => [f.path.replace(/\\/g, '/'), f])
+  );
+
+  for (const entry of graph.entries) {
+    const totals: SizeTotals = { size: 0, gzip: 0, brotli: 0 };
+    for (const filePath of collectInitialFiles(graph, entry.files)) {
+      const file = filesByPath.get(filePath);
+      if (!file) continue;
+      totals.size += file.size;
+      totals.gzip += file.gzip;
+      totals.brotli += file.brotli;
+    }
+    routes.set(entry.name, totals);
+  }
+
+  return routes;
+}
+
+function budgetFor(
+  route: string,
+  budgets: RouteBudget[]
+): RouteBudget | undefined {
+  return budgets.find(
+    (budget) => budget.route === route || globToRegExp(budget.route).test(route)
+  );
+}
+
+export function diffRoutes(
+  baseline: BundleStats | null,
+  current: BundleStats,
+  budgets: RouteBudget[],
+  defaultMetric: CompareMetric
+): { routes: RouteChange[]; violations: BudgetViolation[] } {
+  const before = baseline
+    ? computeRouteSizes(baseline)
+    : new Map<string, SizeTotals>();
+  const after = computeRouteSizes(current);
+  const routes: RouteChange[] = [];
+  const violations: BudgetViolation[] = [];
+
+  for (const route of new Set([...after.keys(), ...before.keys()])) {
+    const beforeTotals = before.get(route) ?? null;
+    const afterTotals = after.get(route) ?? null;
+    const budget = budgetFor(route, budgets);
+    let budgetStatus: RouteChange['budgetStatus'] = null;
+
+    if (budget && afterTotals) {
+      budgetStatus = 'pass';
+      const metric = budget.metric ?? defaultMetric;
+      const value = afterTotals[metric];
+
+      if (budget.maxKb !== null && value > budget.maxKb * 1024) {
+        budgetStatus = 'fail';
+        violations.push({
+          target: route,
+          scope: 'route',
+          metric,
+          kind: 'max',
+          actual: value,
+          limit: budget.maxKb * 1024,
+          message: `Route ${route} loads ${formatBytes(value)} ${metric} (max ${budget.maxKb} KB)`,
+        });
+      }
+
+      if (budget.maxIncreaseKb !== null && beforeTotals) {
+        const increase = value - beforeTotals[metric];
+        if (increase > budget.maxIncreaseKb * 1024) {
+          budgetStatus = 'fail';
+          violations.push({
+            target: route,
+            scope: 'route',
+            metric,
+            kind: 'increase',
+            actual: increase,
+            limit: budget.maxIncreaseKb * 1024,
+            message: `Route ${route} grew +${formatBytes(increase)} ${metric} (max +${budget.maxIncreaseKb} KB)`,
+          });
+        }
+      }
+    }
+
+    routes.push({
+      route,
+      before: beforeTotals,
+      after: afterTotals,
+      budgetStatus,
+    });
+  }
+
+  routes.sort((a, b) => a.route.localeCompare(b.route));
+  return { routes, violations };
+}
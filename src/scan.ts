@@ -2,14 +2,39 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as zlib from 'zlib';
 import { createReadStream } from 'fs';
-import { FileStats, BundleStats } from './types';
-import { isAssetFile } from './utils';
+import {
+  AssetCategory,
+  BundleStats,
+  FileStats,
+  ScanOptions,
+  SizeTotals,
+} from './types';
+import { categorizeAsset, isPrecompressed, matchesAssetFilter } from './utils';
+import { readSourceContributions } from './sourcemap';
+import { fingerprintFile } from './fingerprint';
+import { STATS_SCHEMA_VERSION } from './schema';
+
+export function summarizeCategories(
+  files: FileStats[]
+): Partial<Record<AssetCategory, SizeTotals>> {
+  const categories: Partial<Record<AssetCategory, SizeTotals>> = {};
+  for (const file of files) {
+    const category = file.category ?? categorizeAsset(file.name) ?? 'other';
+    const totals = categories[category] ?? { size: 0, gzip: 0, brotli: 0 };
+    totals.size += file.size;
+    totals.gzip += file.gzip;
+    totals.brotli += file.brotli;
+    categories[category] = totals;
+  }
+  return categories;
+}
 
 export async function scanDirectory(
   distPath: string,
-  useGzip: boolean,
-  useBrotli: boolean
+  options: ScanOptions
 ): Promise<BundleStats> {
+  const { useGzip, useBrotli, commit, sourceMaps, assetFilter } = options;
+
   try {
     const stat = await fs.promises.stat(distPath);
     if (!stat.isDirectory()) {
@@ -32,15 +57,25 @@ export async function scanDirectory(
 
       if (entry.isDirectory()) {
         await walk(fullPath);
-      } else if (entry.isFile() && isAssetFile(entry.name)) {
+      } else if (entry.isFile()) {
+        const relativePath = path.relative(distPath, fullPath);
+        if (!matchesAssetFilter(relativePath, assetFilter)) continue;
         const stat = await fs.promises.stat(fullPath);
-        files.push({
-          path: path.relative(distPath, fullPath),
+        const file: FileStats = {
+          path: relativePath,
           name: entry.name,
+          category: categorizeAsset(entry.name) ?? 'other',
           size: stat.size,
           gzip: 0,
           brotli: 0,
-        });
+        };
+        if (isPrecompressed(entry.name)) {
+          // Served as-is, so the transfer size is the raw size.
+          file.precompressed = true;
+          file.gzip = useGzip ? stat.size : 0;
+          file.brotli = useBrotli ? stat.size : 0;
+        }
+        files.push(file);
       }
     }
   }
@@ -56,23 +91,33 @@ export async function scanDirectory(
       const file = files[index];
       if (!file) break;
       const fullPath = path.join(distPath, file.path);
-      if (useGzip) {
+      file.fingerprint = await fingerprintFile(fullPath);
+      if (useGzip && !file.precompressed) {
         file.gzip = await getCompressedSize(fullPath, 'gzip');
       }
-      if (useBrotli) {
+      if (useBrotli && !file.precompressed) {
         file.brotli = await getCompressedSize(fullPath, 'brotli');
       }
+      if (
+        sourceMaps &&
+        (file.category === 'scripts' || file.category === 'styles')
+      ) {
+        const sources = await readSourceContributions(fullPath);
+        if (sources) file.sources = sources;
+      }
     }
   });
   await Promise.all(workers);
 
   return {
+    schemaVersion: STATS_SCHEMA_VERSION,
     files,
     totalSize: files.reduce((sum, f) => sum + f.size, 0),
     totalGzip: files.reduce((sum, f) => sum + f.gzip, 0),
     totalBrotli: files.reduce((sum, f) => sum + f.brotli, 0),
+    categories: summarizeCategories(files),
     timestamp: new Date().toISOString(),
-    commit: process.env.GITHUB_SHA || 'unknown',
+    commit,
   };
 }
 
@@ -0,0 +1,223 @@
+import { AssetCategory, BundleStats } from './types';
+import { ASSET_CATEGORIES, categorizeAsset } from './utils';
+
+// Bump when BundleStats changes shape, and add a migration from the previous
+// version so stored baselines keep working.
+export const STATS_SCHEMA_VERSION = 2;
+
+// Stats written before schemaVersion existed.
+const LEGACY_SCHEMA_VERSION = 1;
+const MAX_REPORTED_ERRORS = 10;
+const CHUNK_GRAPH_FORMATS = ['webpack', 'esbuild', 'vite', 'next'];
+
+type RawObject = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1. Input is
+// unvalidated, so migrations only touch fields that have the expected type.
+const MIGRATIONS: Record<number, (stats: RawObject) => RawObject> = {
+  // Version 2 tags every file with its asset category.
+  1: (stats) => ({
+    ...stats,
+    files: Array.isArray(stats.files)
+      ? stats.files.map((file: unknown) => {
+          if (!isObject(file) || file.category !== undefined) return file;
+          if (typeof file.name !== 'string') return file;
+          return { ...file, category: categorizeAsset(file.name) ?? 'other' };
+        })
+      : stats.files,
+  }),
+};
+
+function isObject(value: unknown): value is RawObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'missing';
+  const json = JSON.stringify(value);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}
+
+function createValidator() {
+  const errors: string[] = [];
+  const fail = (at: string, expected: string, value: unknown) =>
+    errors.push(`${at}: expected ${expected}, got ${describeValue(value)}`);
+
+  const string = (value: unknown, at: string): void => {
+    if (typeof value !== 'string') fail(at, 'a string', value);
+  };
+  const size = (value: unknown, at: string): void => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      fail(at, 'a non-negative number', value);
+    }
+  };
+  const object = (value: unknown, at: string): value is RawObject => {
+    if (isObject(value)) return true;
+    fail(at, 'an object', value);
+    return false;
+  };
+  const array = (value: unknown, at: string): value is unknown[] => {
+    if (Array.isArray(value)) return true;
+    fail(at, 'an array', value);
+    return false;
+  };
+  const totals = (value: RawObject, at: string, keys: string[]): void => {
+    for (const key of keys) size(value[key], at ? `${at}.${key}` : key);
+  };
+
+  return { errors, fail, string, size, object, array, totals };
+}
+
+function validateStats(stats: RawObject): string[] {
+  const v = createValidator();
+
+  v.string(stats.commit, 'commit');
+  v.string(stats.timestamp, 'timestamp');
+  v.totals(stats, '', ['totalSize', 'totalGzip', 'totalBrotli']);
+
+  if (v.array(stats.files, 'files')) {
+    stats.files.forEach((file, index) => {
+      const at = `files[${index}]`;
+      if (!v.object(file, at)) return;
+      v.string(file.path, `${at}.path`);
+      v.string(file.name, `${at}.name`);
+      v.totals(file, at, ['size', 'gzip', 'brotli']);
+      if (
+        file.category !== undefined &&
+        !ASSET_CATEGORIES.includes(file.category as AssetCategory)
+      ) {
+        v.fail(`${at}.category`, 'an asset category', file.category);
+      }
+      if (
+        file.precompressed !== undefined &&
+        typeof file.precompressed !== 'boolean'
+      ) {
+        v.fail(`${at}.precompressed`, 'a boolean', file.precompressed);
+      }
+      if (
+        file.sources !== undefined &&
+        v.array(file.sources, `${at}.sources`)
+      ) {
+        file.sources.forEach((source, i) => {
+          if (!v.object(source, `${at}.sources[${i}]`)) return;
+          v.string(source.path, `${at}.sources[${i}].path`);
+          v.size(source.size, `${at}.sources[${i}].size`);
+        });
+      }
+      if (
+        file.fingerprint !== undefined &&
+        v.object(file.fingerprint, `${at}.fingerprint`)
+      ) {
+        v.string(file.fingerprint.hash, `${at}.fingerprint.hash`);
+        const sketch = file.fingerprint.sketch;
+        if (
+          !Array.isArray(sketch) ||
+          !sketch.every((n) => Number.isInteger(n) && n >= 0)
+        ) {
+          v.fail(`${at}.fingerprint.sketch`, 'an array of integers', sketch);
+        }
+      }
+    });
+  }
+
+  if (stats.history !== undefined && v.array(stats.history, 'history')) {
+    stats.history.forEach((entry, index) => {
+      const at = `history[${index}]`;
+      if (!v.object(entry, at)) return;
+      v.string(entry.commit, `${at}.commit`);
+      v.string(entry.timestamp, `${at}.timestamp`);
+      v.totals(entry, at, ['totalSize', 'totalGzip', 'totalBrotli']);
+    });
+  }
+
+  const noisy = stats.nondeterministicFiles;
+  if (
+    noisy !== undefined &&
+    (!Array.isArray(noisy) || !noisy.every((f) => typeof f === 'string'))
+  ) {
+    v.fail('nondeterministicFiles', 'an array of strings', noisy);
+  }
+
+  if (
+    stats.categories !== undefined &&
+    v.object(stats.categories, 'categories')
+  ) {
+    for (const [category, value] of Object.entries(stats.categories)) {
+      const at = `categories.${category}`;
+      if (v.object(value, at)) v.totals(value, at, ['size', 'gzip', 'brotli']);
+    }
+  }
+
+  const graph = stats.chunkGraph;
+  if (graph !== undefined && v.object(graph, 'chunkGraph')) {
+    if (!CHUNK_GRAPH_FORMATS.includes(graph.format as string)) {
+      v.fail(
+        'chunkGraph.format',
+        CHUNK_GRAPH_FORMATS.join(' | '),
+        graph.format
+      );
+    }
+    if (v.array(graph.entries, 'chunkGraph.entries')) {
+      graph.entries.forEach((entry, index) => {
+        const at = `chunkGraph.entries[${index}]`;
+        if (!v.object(entry, at)) return;
+        v.string(entry.name, `${at}.name`);
+        if (v.array(entry.files, `${at}.files`)) {
+          entry.files.forEach((f, i) => v.string(f, `${at}.files[${i}]`));
+        }
+      });
+    }
+    if (v.array(graph.chunks, 'chunkGraph.chunks')) {
+      graph.chunks.forEach((chunk, index) => {
+        const at = `chunkGraph.chunks[${index}]`;
+        if (!v.object(chunk, at)) return;
+        v.string(chunk.file, `${at}.file`);
+        for (const key of ['imports', 'dynamicImports']) {
+          const list = chunk[key];
+          if (
+            !Array.isArray(list) ||
+            !list.every((i) => typeof i === 'string')
+          ) {
+            v.fail(`${at}.${key}`, 'an array of strings', list);
+          }
+        }
+      });
+    }
+  }
+
+  return v.errors;
+}
+
+// Upgrades older stats to the current schema and checks every field, so
+// corrupted baselines fail here instead of deep inside a diff.
+export function parseBundleStats(raw: unknown): BundleStats {
+  if (!isObject(raw)) {
+    throw new Error(`expected a JSON object, got ${describeValue(raw)}`);
+  }
+
+  const version = raw.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new Error(
+      `schemaVersion: expected a positive integer, got ${describeValue(version)}`
+    );
+  }
+  if ((version as number) > STATS_SCHEMA_VERSION) {
+    throw new Error(
+      `schemaVersion ${version} is newer than this action supports (${STATS_SCHEMA_VERSION}); update build-size-diff`
+    );
+  }
+
+  let stats = raw;
+  for (let from = version as number; from < STATS_SCHEMA_VERSION; from++) {
+    stats = MIGRATIONS[from](stats);
+  }
+  stats = { ...stats, schemaVersion: STATS_SCHEMA_VERSION };
+
+  const errors = validateStats(stats);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+    const more = errors.length - MAX_REPORTED_ERRORS;
+    throw new Error(more > 0 ? `${shown}; and ${more} more` : shown);
+  }
+  return stats as unknown as BundleStats;
+}
@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourceContribution } from './types';
+
+const BASE64_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Map(
+  Array.from(BASE64_CHARS, (char, index) => [char, index])
+);
+
+interface RawSourceMap {
+  version: number;
+  sources: Array<string | null>;
+  sourceRoot?: string;
+  mappings: string;
+}
+
+export interface ModuleGroup {
+  name: string;
+  kind: 'package' | 'directory';
+}
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_LOOKUP.get(char);
+    if (digit === undefined) throw new Error(`Invalid VLQ character: ${char}`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+export function normalizeSourcePath(source: string): string {
+  return source
+    .replace(/\\/g, '/')
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*\//i, '')
+    .replace(/^[a-z][a-z0-9+.-]*:/i, '')
+    .replace(/\?.*$/, '')
+    .replace(/^(\.{1,2}\/)+/, '')
+    .replace(/^\/+/, '');
+}
+
+export function attributeSourceMap(
+  generated: string,
+  map: RawSourceMap
+): SourceContribution[] {
+  const sources = map.sources.map((source) =>
+    source === null
+      ? null
+      : normalizeSourcePath(
+          map.sourceRoot ? `${map.sourceRoot}/${source}` : source
+        )
+  );
+  const totals = new Map<string, number>();
+  const lines = generated.split('\n');
+  const mappingLines = map.mappings.split(';');
+  let sourceIndex = 0;
+
+  for (let lineIndex = 0; lineIndex < mappingLines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    if (line === undefined) break;
+
+    // Each segment spans from its column to the next segment's column; only
+    // segments with a source (length >= 4) are attributed.
+    const spans: Array<{ column: number; source: number | null }> = [];
+    let column = 0;
+    for (const segment of mappingLines[lineIndex].split(',')) {
+      if (!segment) continue;
+      const fields = decodeVlq(segment);
+      column += fields[0];
+      if (fields.length >= 4) {
+        sourceIndex += fields[1];
+        spans.push({ column, source: sourceIndex });
+      } else {
+        spans.push({ column, source: null });
+      }
+    }
+
+    for (let i = 0; i < spans.length; i++) {
+      const span = spans[i];
+      if (span.source === null) continue;
+      const name = sources[span.source];
+      if (!name) continue;
+      const end = i + 1 < spans.length ? spans[i + 1].column : line.length;
+      const bytes = Buffer.byteLength(line.slice(span.column, end));
+      totals.set(name, (totals.get(name) ?? 0) + bytes);
+    }
+  }
+
+  return Array.from(totals, ([sourcePath, size]) => ({
+    path: sourcePath,
+    size,
+  })).sort((a, b) => b.size - a.size);
+}
+
+async function readSourceMap(
+  filePath: string,
+  generated: string
+): Promise<RawSourceMap | null> {
+  const match = generated.match(
+    /[#@] sourceMappingURL=([^\s'"*]+)\s*(?:\*\/)?\s*$/
+  );
+  const url = match?.[1];
+
+  if (url?.startsWith('data:')) {
+    const comma = url.indexOf(',');
+    const payload = url.slice(comma + 1);
+    const json = url.slice(0, comma).endsWith(';base64')
+      ? Buffer.from(payload, 'base64').toString('utf-8')
+      : decodeURIComponent(payload);
+    return JSON.parse(json) as RawSourceMap;
+  }
+
+  const candidates = [
+    url ? path.resolve(path.dirname(filePath), url) : null,
+    `${filePath}.map`,
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const content = await fs.promises.readFile(candidate, 'utf-8');
+      return JSON.parse(content) as RawSourceMap;
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+export async function readSourceContributions(
+  filePath: string
+): Promise<SourceContribution[] | null> {
+  const generated = await fs.promises.readFile(filePath, 'utf-8');
+  try {
+    const map = await readSourceMap(filePath, generated);
+    if (
+      !map ||
+      !Array.isArray(map.sources) ||
+      typeof map.mappings !== 'string'
+    ) {
+      return null;
+    }
+    return attributeSourceMap(generated, map);
+  } catch {
+    return null;
+  }
+}
+
+export function moduleGroupFor(sourcePath: string): ModuleGroup {
+  const segments = sourcePath.split('/');
+  const nodeModulesIndex = segments.lastIndexOf('node_modules');
+
+  if (nodeModulesIndex !== -1 && nodeModulesIndex + 1 < segments.length) {
+    const first = segments[nodeModulesIndex + 1];
+    const name =
+      first.startsWith('@') && nodeModulesIndex + 2 < segments.length
+        ? `${first}/${segments[nodeModulesIndex + 2]}`
+        : first;
+    return { name, kind: 'package' };
+  }
+
+  const directories = segments.slice(0, -1);
+  return {
+    name: directories.length > 0 ? directories.slice(0, 2).join('/') : '.',
+    kind: 'directory',
+  };
+}
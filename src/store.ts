@@ -0,0 +1,282 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaselineStorage, BundleStats } from './types';
+import { runGit } from './git';
+import { parseBundleStats } from './schema';
+import {
+  fetchBaselineArtifact,
+  fetchBaselineArtifactForCommits,
+  saveBaselineArtifact,
+} from './artifact';
+
+export interface BaselineStore {
+  readonly name: string;
+  save(stats: BundleStats, branch: string): Promise<void>;
+  fetchLatest(branches: string[]): Promise<BundleStats | null>;
+  // Returns the baseline of the earliest listed commit that has one.
+  fetchForCommits(commits: string[]): Promise<BundleStats | null>;
+}
+
+export interface BaselineStoreOptions {
+  storage: BaselineStorage;
+  githubToken: string;
+  maxArtifactPages: number;
+  storageBranch: string;
+  storageDir: string;
+  // Build variant whose baselines this store reads and writes.
+  variant: string | null;
+}
+
+// Invalid or unreadable stats count as a missing baseline, not an error.
+function parseStoredStats(content: string, label: string): BundleStats | null {
+  try {
+    return parseBundleStats(JSON.parse(content));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(
+      `Ignoring invalid baseline ${label}; treating as no baseline. ${message}`
+    );
+    return null;
+  }
+}
+
+function sanitizeKey(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+// Variants get their own files, e.g. latest-main.legacy.json.
+function statsFileName(key: string, variant: string | null): string {
+  return variant ? `${key}.${sanitizeKey(variant)}.json` : `${key}.json`;
+}
+
+function latestFileName(branch: string, variant: string | null): string {
+  return statsFileName(`latest-${sanitizeKey(branch)}`, variant);
+}
+
+function commitFileName(commit: string, variant: string | null): string {
+  return statsFileName(sanitizeKey(commit), variant);
+}
+
+function createArtifactStore(
+  token: string,
+  maxPages: number,
+  variant: string | null
+): BaselineStore {
+  return {
+    name: 'artifact',
+    async save(stats) {
+      await saveBaselineArtifact(stats, variant);
+    },
+    async fetchLatest(branches) {
+      return fetchBaselineArtifact(token, branches, maxPages, variant);
+    },
+    async fetchForCommits(commits) {
+      return fetchBaselineArtifactForCommits(token, commits, maxPages, variant);
+    },
+  };
+}
+
+function createLocalStore(dir: string, variant: string | null): BaselineStore {
+  return {
+    name: 'local',
+    async save(stats, branch) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const content = JSON.stringify(stats, null, 2);
+      await fs.promises.writeFile(
+        path.join(dir, commitFileName(stats.commit, variant)),
+        content
+      );
+      await fs.promises.writeFile(
+        path.join(dir, latestFileName(branch, variant)),
+        content
+      );
+      core.info(`Baseline stats written to ${dir}`);
+    },
+    async fetchLatest(branches) {
+      for (const branch of branches) {
+        const filePath = path.join(dir, latestFileName(branch, variant));
+        if (!fs.existsSync(filePath)) continue;
+        const content = await fs.promises.readFile(filePath, 'utf-8');
+        // Invalid stats are skipped so older baselines can still be used.
+        const stats = parseStoredStats(content, filePath);
+        if (!stats) continue;
+        core.info(`Baseline loaded (local): ${filePath}`);
+        return stats;
+      }
+      core.info(`No local baseline found in ${dir}`);
+      return null;
+    },
+    async fetchForCommits(commits) {
+      for (const commit of commits) {
+        const filePath = path.join(dir, commitFileName(commit, variant));
+        if (!fs.existsSync(filePath)) continue;
+        const content = await fs.promises.readFile(filePath, 'utf-8');
+        // Invalid stats are skipped so older baselines can still be used.
+        const stats = parseStoredStats(content, filePath);
+        if (!stats) continue;
+        core.info(`Baseline loaded (local): ${filePath}`);
+        return stats;
+      }
+      core.info(`No local baseline found for ${commits.length} commits`);
+      return null;
+    },
+  };
+}
+
+const GIT_PUSH_ATTEMPTS = 3;
+
+function createGitBranchStore(
+  storageBranch: string,
+  variant: string | null
+): BaselineStore {
+  const remoteRef = `refs/heads/${storageBranch}`;
+  const localRef = `refs/build-size-diff/${sanitizeKey(storageBranch)}`;
+
+  const fetchBranch = async (): Promise<boolean> => {
+    try {
+      await runGit([
+        'fetch',
+        '--no-tags',
+        '--depth=1',
+        'origin',
+        `+${remoteRef}:${localRef}`,
+      ]);
+      return true;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/couldn't find remote ref/i.test(message)) return false;
+      throw error;
+    }
+  };
+
+  const readFile = async (fileName: string): Promise<BundleStats | null> => {
+    let content: string;
+    try {
+      content = await runGit(['show', `${localRef}:${fileName}`]);
+    } catch {
+      return null;
+    }
+    return parseStoredStats(content, `${storageBranch}/${fileName}`);
+  };
+
+  return {
+    name: 'git-branch',
+    async save(stats, branch) {
+      const content = JSON.stringify(stats, null, 2);
+      const blob = (
+        await runGit(['hash-object', '-w', '--stdin'], content)
+      ).trim();
+      const updates = new Map([
+        [commitFileName(stats.commit, variant), blob],
+        [latestFileName(branch, variant), blob],
+      ]);
+
+      // Build the commit with plumbing so the workspace checkout is untouched.
+      for (let attempt = 1; attempt <= GIT_PUSH_ATTEMPTS; attempt++) {
+        const hasParent = await fetchBranch();
+        const entries = new Map<string, string>();
+        if (hasParent) {
+          const listing = await runGit(['ls-tree', localRef]);
+          for (const line of listing.split('\n')) {
+            const match = line.match(/^\d+ blob ([0-9a-f]+)\t(.+)$/);
+            if (match) entries.set(match[2], match[1]);
+          }
+        }
+        for (const [fileName, sha] of updates) entries.set(fileName, sha);
+
+        const treeInput = Array.from(entries)
+          .map(([fileName, sha]) => `100644 blob ${sha}\t${fileName}`)
+          .join('\n');
+        const tree = (await runGit(['mktree'], `${treeInput}\n`)).trim();
+        const commitArgs = [
+          '-c',
+          'user.name=github-actions[bot]',
+          '-c',
+          'user.email=41898282+github-actions[bot]@users.noreply.github.com',
+          'commit-tree',
+          tree,
+          '-m',
+          `Bundle stats for ${stats.commit.slice(0, 7)} (${variant ? `${variant}, ` : ''}${branch})`,
+        ];
+        if (hasParent) commitArgs.push('-p', localRef);
+        const commit = (await runGit(commitArgs)).trim();
+
+        try {
+          await runGit(['push', 'origin', `${commit}:${remoteRef}`]);
+          core.info(`Baseline stats committed to ${storageBranch} branch`);
+          return;
+        } catch (error: unknown) {
+          if (attempt === GIT_PUSH_ATTEMPTS) throw error;
+          core.warning(
+            `Push to ${storageBranch} rejected, retrying (${attempt}/${GIT_PUSH_ATTEMPTS})`
+          );
+        }
+      }
+    },
+    async fetchLatest(branches) {
+      try {
+        if (!(await fetchBranch())) {
+          core.info(`Baseline branch ${storageBranch} does not exist yet`);
+          return null;
+        }
+        for (const branch of branches) {
+          const stats = await readFile(latestFileName(branch, variant));
+          if (stats) {
+            core.info(
+              `Baseline loaded (git-branch): ${storageBranch}/${latestFileName(branch, variant)}`
+            );
+            return stats;
+          }
+        }
+        core.info(
+          `No baseline for ${branches.join(', ')} in ${storageBranch} branch`
+        );
+        return null;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`Failed to read baseline branch: ${message}`);
+        return null;
+      }
+    },
+    async fetchForCommits(commits) {
+      try {
+        if (!(await fetchBranch())) return null;
+        for (const commit of commits) {
+          const stats = await readFile(commitFileName(commit, variant));
+          if (stats) {
+            core.info(
+              `Baseline loaded (git-branch): ${storageBranch}/${commitFileName(commit, variant)}`
+            );
+            return stats;
+          }
+        }
+        core.info(
+          `No baseline for ${commits.length} commits in ${storageBranch} branch`
+        );
+        return null;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`Failed to read baseline branch: ${message}`);
+        return null;
+      }
+    },
+  };
+}
+
+export function createBaselineStore(
+  options: BaselineStoreOptions
+): BaselineStore {
+  switch (options.storage) {
+    case 'git-branch':
+      return createGitBranchStore(options.storageBranch, options.variant);
+    case 'local':
+      return createLocalStore(options.storageDir, options.variant);
+    default:
+      return createArtifactStore(
+        options.githubToken,
+        options.maxArtifactPages,
+        options.variant
+      );
+  }
+}
@@ -0,0 +1,267 @@
+import { BundleStats, CompareMetric, FileStats } from './types';
+import { pairFiles } from './compare';
+
+export interface TreemapNode {
+  name: string;
+  value: number;
+  // null means the node did not exist in the baseline.
+  before: number | null;
+  children?: TreemapNode[];
+}
+
+function metricOf(file: FileStats, metric: CompareMetric): number {
+  if (metric === 'brotli') return file.brotli;
+  if (metric === 'gzip') return file.gzip;
+  return file.size;
+}
+
+// Source maps count raw bytes; spread the file's compressed size over them.
+function scaledSources(
+  file: FileStats,
+  metric: CompareMetric
+): Map<string, number> {
+  const scaled = new Map<string, number>();
+  const sources = file.sources ?? [];
+  const total = sources.reduce((sum, source) => sum + source.size, 0);
+  if (total === 0) return scaled;
+  const value = metricOf(file, metric);
+  for (const source of sources) {
+    scaled.set(source.path, (value * source.size) / total);
+  }
+  return scaled;
+}
+
+function insert(
+  root: TreemapNode,
+  segments: string[],
+  value: number,
+  before: number | null
+): TreemapNode {
+  let node = root;
+  for (const segment of segments) {
+    node.children = node.children ?? [];
+    let child = node.children.find((c) => c.name === segment);
+    if (!child) {
+      child = { name: segment, value: 0, before: null };
+      node.children.push(child);
+    }
+    node = child;
+  }
+  node.value = value;
+  node.before = before;
+  return node;
+}
+
+function sumUp(node: TreemapNode): void {
+  if (!node.children) return;
+  let value = 0;
+  let before: number | null = null;
+  for (const child of node.children) {
+    sumUp(child);
+    value += child.value;
+    if (child.before !== null) before = (before ?? 0) + child.before;
+  }
+  node.value = value;
+  node.before = before;
+  node.children.sort((a, b) => b.value - a.value);
+}
+
+export function buildTreemapTree(
+  baseline: BundleStats | null,
+  current: BundleStats,
+  metric: CompareMetric,
+  hashPattern: RegExp | null = null
+): TreemapNode {
+  const root: TreemapNode = { name: 'dist', value: 0, before: null };
+  const pairs = pairFiles(
+    baseline?.files ?? [],
+    current.files,
+    hashPattern,
+    (f) => metricOf(f, metric)
+  );
+
+  for (const { base, current: file } of pairs) {
+    if (!file) continue;
+    const segments = file.path.replace(/\\/g, '/').split('/');
+    const node = insert(
+      root,
+      segments,
+      metricOf(file, metric),
+      base ? metricOf(base, metric) : null
+    );
+
+    const sources = scaledSources(file, metric);
+    if (sources.size === 0) continue;
+    const baseSources = base ? scaledSources(base, metric) : new Map();
+    for (const [sourcePath, value] of sources) {
+      let before: number | null = baseSources.get(sourcePath) ?? null;
+      if (base && baseSources.size === 0) {
+        // Without a baseline breakdown, spread the file's change evenly.
+        before =
+          node.before === null ? null : (node.before * value) / node.value;
+      }
+      insert(node, sourcePath.split('/'), value, before);
+    }
+  }
+
+  sumUp(root);
+  return root;
+}
+
+// Kept dependency-free so the file works when opened from a downloaded
+// artifact without network access.
+const TREEMAP_SCRIPT = `
+const data = JSON.parse(document.getElementById('treemap-data').textContent);
+const map = document.getElementById('map');
+const crumbs = document.getElementById('crumbs');
+const units = ['B', 'KB', 'MB', 'GB'];
+function fmt(bytes) {
+  let value = Math.abs(bytes), unit = 0;
+  while (value >= 1024 && unit < units.length - 1) { value /= 1024; unit++; }
+  return (bytes < 0 ? '-' : '') + value.toFixed(unit ? 2 : 0) + ' ' + units[unit];
+}
+function color(node) {
+  if (node.before === null) return 'hsl(0, 70%, 62%)';
+  const change = (node.value - node.before) / Math.max(node.before, 1);
+  const strength = Math.min(Math.abs(change) / 0.25, 1);
+  if (Math.abs(node.value - node.before) < 1) return 'hsl(210, 10%, 78%)';
+  return change > 0
+    ? 'hsl(0, ' + (30 + 40 * strength) + '%, ' + (80 - 18 * strength) + '%)'
+    : 'hsl(130, ' + (30 + 30 * strength) + '%, ' + (80 - 18 * strength) + '%)';
+}
+function describe(node, path) {
+  const delta = node.before === null ? 'new' : (node.value >= node.before ? '+' : '') + fmt(node.value - node.before);
+  return path + '\\n' + fmt(node.value) + ' (' + delta + ')';
+}
+function worst(row, width) {
+  const sum = row.reduce((a, b) => a + b.area, 0);
+  const max = Math.max(...row.map((r) => r.area));
+  const min = Math.min(...row.map((r) => r.area));
+  return Math.max((width * width * max) / (sum * sum), (sum * sum) / (width * width * min));
+}
+function squarify(items, x, y, w, h, out) {
+  let row = [];
+  while (items.length) {
+    const short = Math.min(w, h);
+    const next = items[0];
+    if (row.length === 0 || worst(row.concat(next), short) <= worst(row, short)) {
+      row.push(items.shift());
+      continue;
+    }
+    [x, y, w, h] = place(row, x, y, w, h, out);
+    row = [];
+  }
+  if (row.length) place(row, x, y, w, h, out);
+}
+function place(row, x, y, w, h, out) {
+  const sum = row.reduce((a, b) => a + b.area, 0);
+  if (w >= h) {
+    const rw = sum / h;
+    let cy = y;
+    for (const r of row) { const rh = r.area / rw; out.push({ node: r.node, x, y: cy, w: rw, h: rh }); cy += rh; }
+    return [x + rw, y, w - rw, h];
+  }
+  const rh = sum / w;
+  let cx = x;
+  for (const r of row) { const rw = r.area / rh; out.push({ node: r.node, x: cx, y, w: rw, h: rh }); cx += rw; }
+  return [x, y + rh, w, h - rh];
+}
+function draw(parent, node, path, w, h, depth) {
+  const children = (node.children || []).filter((c) => c.value > 0);
+  const total = children.reduce((a, c) => a + c.value, 0);
+  if (!total || w < 4 || h < 4) return;
+  const rects = [];
+  squarify(children.map((c) => ({ node: c, area: (c.value / total) * w * h })), 0, 0, w, h, rects);
+  for (const r of rects) {
+    const el = document.createElement('div');
+    const childPath = path + '/' + r.node.name;
+    el.className = 'cell';
+    el.style.left = r.x + 'px'; el.style.top = r.y + 'px';
+    el.style.width = Math.max(r.w - 1, 0) + 'px'; el.style.height = Math.max(r.h - 1, 0) + 'px';
+    el.style.background = color(r.node);
+    el.title = describe(r.node, childPath);
+    if (r.w > 40 && r.h > 14) {
+      const label = document.createElement('span');
+      label.textContent = r.node.name + ' ' + fmt(r.node.value);
+      el.appendChild(label);
+    }
+    el.onclick = (event) => { event.stopPropagation(); if (r.node.children) zoom(stack.concat(r.node)); };
+    parent.appendChild(el);
+    if (depth < 2 && r.node.children && r.h > 30) {
+      const inner = document.createElement('div');
+      inner.className = 'inner';
+      el.appendChild(inner);
+      draw(inner, r.node, childPath, r.w - 3, r.h - 17, depth + 1);
+    }
+  }
+}
+let stack = [data];
+function zoom(next) {
+  stack = next;
+  const node = stack[stack.length - 1];
+  map.innerHTML = '';
+  crumbs.innerHTML = '';
+  stack.forEach((item, index) => {
+    const link = document.createElement('a');
+    link.textContent = item.name;
+    link.href = '#';
+    link.onclick = (event) => { event.preventDefault(); zoom(stack.slice(0, index + 1)); };
+    crumbs.appendChild(link);
+    if (index < stack.length - 1) crumbs.appendChild(document.createTextNode(' / '));
+  });
+  crumbs.appendChild(document.createTextNode('  ' + describe(node, '').trim()));
+  draw(map, node, stack.map((s) => s.name).join('/'), map.clientWidth, map.clientHeight, 0);
+}
+window.onresize = () => zoom(stack);
+zoom(stack);
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function buildTreemapHtml(
+  baseline: BundleStats | null,
+  current: BundleStats,
+  metric: CompareMetric,
+  hashPattern: RegExp | null = null
+): string {
+  const tree = buildTreemapTree(baseline, current, metric, hashPattern);
+  // "<" is escaped so file names can never close the data script tag.
+  const json = JSON.stringify(tree).replace(/</g, '\\u003c');
+  const title = `Bundle treemap (${metric}) · ${current.commit.slice(0, 7)}`;
+  const against = baseline
+    ? `compared with ${baseline.commit.slice(0, 7)}`
+    : 'no baseline';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0; font: 13px system-ui, sans-serif; display: flex; flex-direction: column; height: 100vh; }
+  header { padding: 8px 12px; border-bottom: 1px solid #ddd; }
+  header h1 { font-size: 15px; margin: 0 0 4px; }
+  #crumbs a { color: #0969da; text-decoration: none; }
+  #map { position: relative; flex: 1; margin: 8px; overflow: hidden; }
+  .cell { position: absolute; box-sizing: border-box; border: 1px solid rgba(0, 0, 0, 0.25); overflow: hidden; cursor: pointer; }
+  .inner { position: absolute; left: 1px; right: 1px; top: 15px; bottom: 1px; }
+  .cell > span { display: block; padding: 1px 3px; white-space: nowrap; font-size: 11px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)} <small>(${escapeHtml(against)}; red grew, green shrank)</small></h1>
+  <div id="crumbs"></div>
+</header>
+<div id="map"></div>
+<script type="application/json" id="treemap-data">${json}</script>
+<script>${TREEMAP_SCRIPT}</script>
+</body>
+</html>
+`;
+}
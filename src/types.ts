@@ -1,13 +1,71 @@
+export interface SourceContribution {
+  path: string;
+  size: number;
+}
+
+export type AssetCategory =
+  | 'scripts'
+  | 'styles'
+  | 'fonts'
+  | 'images'
+  | 'wasm'
+  | 'html'
+  | 'other';
+
+export interface AssetFilter {
+  categories: AssetCategory[];
+  include: string[];
+  exclude: string[];
+}
+
+export interface FileFingerprint {
+  // Truncated SHA-256 of the content.
+  hash: string;
+  // Bottom-k MinHash of byte shingles, ascending.
+  sketch: number[];
+}
+
 export interface FileStats {
   path: string;
   name: string;
+  category?: AssetCategory;
   size: number;
   gzip: number;
   brotli: number;
+  precompressed?: boolean;
+  sources?: SourceContribution[];
+  fingerprint?: FileFingerprint;
+}
+
+export interface ChunkNode {
+  file: string;
+  imports: string[];
+  dynamicImports: string[];
+}
+
+export interface ChunkGraph {
+  format: 'webpack' | 'esbuild' | 'vite' | 'next';
+  entries: Array<{ name: string; files: string[] }>;
+  chunks: ChunkNode[];
+}
+
+export interface HistoryEntry {
+  commit: string;
+  timestamp: string;
+  totalSize: number;
+  totalGzip: number;
+  totalBrotli: number;
 }
 
 export interface BundleStats {
+  // See STATS_SCHEMA_VERSION; absent in stats written before versioning.
+  schemaVersion: number;
   files: FileStats[];
+  chunkGraph?: ChunkGraph;
+  categories?: Partial<Record<AssetCategory, SizeTotals>>;
+  history?: HistoryEntry[];
+  // Files that differed between two builds of the same commit.
+  nondeterministicFiles?: string[];
   totalSize: number;
   totalGzip: number;
   totalBrotli: number;
@@ -15,6 +73,216 @@ export interface BundleStats {
   commit: string;
 }
 
+export type CompareMetric = 'brotli' | 'gzip' | 'size';
+
+export type BaselineStorage = 'artifact' | 'git-branch' | 'local';
+
+export interface BudgetRule {
+  files: string;
+  metric: CompareMetric | null;
+  maxKb: number | null;
+  maxIncreaseKb: number | null;
+}
+
+export interface RouteBudget {
+  route: string;
+  metric: CompareMetric | null;
+  maxKb: number | null;
+  maxIncreaseKb: number | null;
+}
+
+export interface BudgetViolation {
+  target: string;
+  // 'total' and 'file' are absolute ceilings on the whole build / each file.
+  scope: 'files' | 'route' | 'total' | 'file';
+  metric: CompareMetric;
+  kind: 'max' | 'increase';
+  // Index of the violated rule in budgetRules, for scope 'files'. Several
+  // rules can share a glob.
+  rule?: number;
+  actual: number;
+  limit: number;
+  message: string;
+}
+
+// Limits that can be set at the top level of the config file or per variant.
+export interface RepoLimits {
+  budgetMaxIncreaseKb: number | null;
+  warnAboveKb: number | null;
+  failAboveKb: number | null;
+  budgetMaxIncreasePercent: number | null;
+  warnAbovePercent: number | null;
+  failAbovePercent: number | null;
+  maxTotalKb: number | null;
+  maxFileKb: number | null;
+  metrics: MetricLimitsByMetric;
+  budgets: BudgetRule[];
+  routes: RouteBudget[];
+}
+
+export interface BuildVariant {
+  name: string;
+  // null runs the build-command input.
+  buildCommand: string | null;
+  distPath: string;
+  // Set fields override the shared limits; rules are added to the shared ones.
+  limits: RepoLimits;
+}
+
+export interface RepoConfig extends RepoLimits {
+  variants: BuildVariant[];
+  // Limits per workspace package, keyed by package name.
+  packages: Record<string, RepoLimits>;
+}
+
+export interface ScanOptions {
+  useGzip: boolean;
+  useBrotli: boolean;
+  commit: string;
+  sourceMaps: boolean;
+  assetFilter: AssetFilter;
+}
+
+export interface BaselineSource {
+  commit: string;
+  origin: 'store' | 'local-build';
+  mergeBase: string | null;
+  // First-parent commits between the merge-base and the compared baseline;
+  // null when the baseline is not a known ancestor of the merge-base.
+  distance: number | null;
+}
+
+export interface BaselineFreshness {
+  // Days since the baseline was recorded; null when its timestamp is unknown.
+  ageDays: number | null;
+  // Commits on the PR base that the baseline commit predates.
+  commitsBehind: number | null;
+  // How the baseline commit relates to the PR base commit.
+  relation:
+    | 'identical'
+    | 'ancestor'
+    | 'descendant'
+    | 'diverged'
+    | 'missing'
+    | 'unknown';
+  stale: boolean;
+  reason: string | null;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  baseRef: string;
+  baseSha: string;
+  headSha: string;
+}
+
+export interface MetricLimits {
+  budgetKb: number | null;
+  budgetPercent: number | null;
+  warnKb: number | null;
+  warnPercent: number | null;
+  failKb: number | null;
+  failPercent: number | null;
+  maxTotalKb: number | null;
+  maxFileKb: number | null;
+}
+
+export type MetricLimitsByMetric = Partial<Record<CompareMetric, MetricLimits>>;
+
+export interface MetricCheck {
+  metric: CompareMetric;
+  limits: MetricLimits;
+  budgetMessage: string | null;
+  thresholdStatus: 'ok' | 'warn' | 'fail';
+  thresholdMessage: string | null;
+}
+
+export type NondeterministicMode = 'flag' | 'exclude';
+
+export interface NondeterministicSummary {
+  files: string[];
+  // True when the files were left out of totals and gates.
+  excluded: boolean;
+}
+
+export interface DiffOptions {
+  budgetKb: number | null;
+  warnKb: number | null;
+  failKb: number | null;
+  budgetPercent: number | null;
+  warnPercent: number | null;
+  failPercent: number | null;
+  maxTotalKb: number | null;
+  maxFileKb: number | null;
+  useGzip: boolean;
+  useBrotli: boolean;
+  hashPattern: RegExp | null;
+  budgetRules: BudgetRule[];
+  routeBudgets: RouteBudget[];
+  // Defaults to 5.
+  topChangesLimit?: number;
+  // Per-metric overrides; the top-level limits apply to the compare metric.
+  metricLimits?: MetricLimitsByMetric;
+  baselineSource?: BaselineSource;
+  baselineFreshness?: BaselineFreshness;
+  // 'skip' reports stale-baseline instead of gating on increases.
+  staleBaseline?: 'warn' | 'skip';
+  // What to do with current.nondeterministicFiles; defaults to 'flag'.
+  nondeterministicMode?: NondeterministicMode;
+  variant?: string | null;
+  treemapUrl?: string | null;
+}
+
+export interface ModuleChange {
+  name: string;
+  kind: 'package' | 'directory';
+  before: number;
+  after: number;
+  diff: number;
+}
+
+export interface SizeTotals {
+  size: number;
+  gzip: number;
+  brotli: number;
+}
+
+export interface RouteChange {
+  route: string;
+  before: SizeTotals | null;
+  after: SizeTotals | null;
+  budgetStatus: 'pass' | 'fail' | null;
+}
+
+export interface LoadSplit {
+  initialBefore: number | null;
+  initialAfter: number;
+  lazyBefore: number | null;
+  lazyAfter: number;
+  // Files outside the chunk graph, such as HTML, fonts and images.
+  otherBefore: number | null;
+  otherAfter: number;
+}
+
+export interface CategoryChange {
+  category: AssetCategory;
+  before: SizeTotals | null;
+  after: SizeTotals;
+}
+
+export interface FileChange {
+  file: string;
+  before: number;
+  after: number;
+  diff: number;
+  previousFile?: string;
+  // Set when the file was paired with previousFile by content similarity.
+  similarity?: number;
+  entries?: string[];
+  // The file differed between two builds of the same commit.
+  nondeterministic?: boolean;
+}
+
 export interface DiffResult {
   baseline: BundleStats | null;
   current: BundleStats;
@@ -26,20 +294,49 @@ export interface DiffResult {
   diffPercentGzip: number;
   diffPercentBrotli: number;
   diffPercentSize: number;
-  topChanges: Array<{
-    file: string;
-    before: number;
-    after: number;
-    diff: number;
-  }>;
-  compareMetric: 'brotli' | 'gzip' | 'size';
-  status: 'pass' | 'fail' | 'no-baseline' | 'baseline-updated';
+  topChanges: FileChange[];
+  // Every changed file, largest change first; topChanges is its head.
+  fileChanges: FileChange[];
+  loadSplit: LoadSplit | null;
+  routes: RouteChange[];
+  categoryChanges: CategoryChange[];
+  moduleChanges: ModuleChange[];
+  compareMetric: CompareMetric;
+  status:
+    | 'pass'
+    | 'fail'
+    | 'no-baseline'
+    | 'stale-baseline'
+    | 'baseline-updated';
   worstDeltaKb: number;
   thresholdStatus: 'ok' | 'warn' | 'fail';
   thresholdMessage: string | null;
   budgetMaxIncreaseKb: number | null;
   warnAboveKb: number | null;
   failAboveKb: number | null;
+  budgetMaxIncreasePercent: number | null;
+  warnAbovePercent: number | null;
+  failAbovePercent: number | null;
+  budgetMessage: string | null;
+  budgetViolations: BudgetViolation[];
+  // Absolute limits, checked even when there is no baseline.
+  ceilingViolations: BudgetViolation[];
+  metricChecks: MetricCheck[];
+  thresholdFiles: Array<{
+    metric: CompareMetric;
+    file: string;
+    deltaBytes: number;
+    deltaKb: number;
+    // null for files that are new in this build.
+    deltaPercent: number | null;
+    level: 'warn' | 'fail';
+  }>;
+  baselineSource: BaselineSource | null;
+  baselineFreshness: BaselineFreshness | null;
+  nondeterministic: NondeterministicSummary | null;
+  // Name of the build variant, or null for a single build.
+  variant: string | null;
+  treemapUrl: string | null;
 }
 
 export interface ActionInputs {
@@ -53,9 +350,40 @@ export interface ActionInputs {
   budgetMaxIncreaseKb: number | null;
   warnAboveKb: number | null;
   failAboveKb: number | null;
+  budgetMaxIncreasePercent: number | null;
+  warnAbovePercent: number | null;
+  failAbovePercent: number | null;
+  maxTotalKb: number | null;
+  maxFileKb: number | null;
+  metricLimits: MetricLimitsByMetric;
   commentMode: 'always' | 'on-increase' | 'never';
   failOnCommentError: boolean;
   skipInstall: boolean;
   githubToken: string;
   maxArtifactPages: number;
+  hashPattern: RegExp | null;
+  budgetRules: BudgetRule[];
+  routeBudgets: RouteBudget[];
+  sourceMaps: boolean;
+  bundleMetadata: string | null;
+  assetFilter: AssetFilter;
+  historySize: number;
+  topChangesLimit: number;
+  baselineMaxAgeDays: number | null;
+  staleBaseline: 'warn' | 'skip';
+  baselineStorage: BaselineStorage;
+  baselineBranch: string;
+  baselineDir: string;
+  baselineMode: 'latest' | 'merge-base';
+  buildBaseline: boolean;
+  determinismCheck: boolean;
+  variants: BuildVariant[];
+  workspaces: boolean;
+  packageLimits: Record<string, RepoLimits>;
+  nondeterministicMode: NondeterministicMode;
+  mode: 'full' | 'analyze' | 'report';
+  checkRun: boolean;
+  checkName: string;
+  reportPath: string | null;
+  treemap: boolean;
 }
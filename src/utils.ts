@@ -1,10 +1,213 @@
-export function isAssetFile(filename: string): boolean {
-  const extensions = ['.js', '.css', '.mjs', '.cjs'];
-  const exclude = ['.map'];
+import { AssetCategory, AssetFilter } from './types';
+
+export const ASSET_CATEGORIES: AssetCategory[] = [
+  'scripts',
+  'styles',
+  'fonts',
+  'images',
+  'wasm',
+  'html',
+  'other',
+];
+
+export const DEFAULT_ASSET_FILTER: AssetFilter = {
+  categories: ['scripts', 'styles'],
+  include: [],
+  exclude: [],
+};
+
+const CATEGORY_EXTENSIONS: Record<Exclude<AssetCategory, 'other'>, string[]> = {
+  scripts: ['.js', '.mjs', '.cjs'],
+  styles: ['.css'],
+  fonts: ['.woff', '.woff2', '.ttf', '.otf', '.eot'],
+  images: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.svg', '.ico'],
+  wasm: ['.wasm'],
+  html: ['.html', '.htm'],
+};
+
+// Formats that are already compressed gain nothing from gzip/brotli.
+const PRECOMPRESSED_EXTENSIONS = [
+  '.woff',
+  '.woff2',
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.avif',
+  '.gz',
+  '.br',
+  '.zip',
+];
+
+export function categorizeAsset(filename: string): AssetCategory | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.map')) return null;
+
+  for (const [category, extensions] of Object.entries(CATEGORY_EXTENSIONS)) {
+    if (extensions.some((ext) => lower.endsWith(ext))) {
+      return category as AssetCategory;
+    }
+  }
+  return 'other';
+}
+
+export function isPrecompressed(filename: string): boolean {
   const lower = filename.toLowerCase();
+  return PRECOMPRESSED_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+export function parseList(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function parseAssetFilter(
+  categories: string,
+  include: string,
+  exclude: string
+): AssetFilter {
+  const requested = parseList(categories);
+  const resolved = requested.includes('all')
+    ? [...ASSET_CATEGORIES]
+    : (requested as AssetCategory[]);
+  const unknown = resolved.filter((c) => !ASSET_CATEGORIES.includes(c));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown asset categories: ${unknown.join(', ')} (expected: all, ${ASSET_CATEGORIES.join(', ')})`
+    );
+  }
+
+  return {
+    categories:
+      resolved.length > 0 ? resolved : DEFAULT_ASSET_FILTER.categories,
+    include: parseList(include),
+    exclude: parseList(exclude),
+  };
+}
+
+export function matchesAssetFilter(
+  filePath: string,
+  filter: AssetFilter
+): boolean {
+  if (filter.exclude.some((glob) => matchesGlob(filePath, glob))) {
+    return false;
+  }
+  if (filter.include.some((glob) => matchesGlob(filePath, glob))) {
+    return true;
+  }
+  const category = categorizeAsset(filePath);
+  return category !== null && filter.categories.includes(category);
+}
+
+// YYYYMMDD, as in chunk-20240101.js, is a version and not a hash.
+const DATE_SEGMENT = /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/;
+
+// viteSuffix: the segment Vite/Rollup append after the last "-", right
+// before the extension.
+function isHashSegment(segment: string, viteSuffix: boolean): boolean {
+  if (segment.length >= 6 && /^[a-f0-9]+$/i.test(segment)) {
+    return /\d/.test(segment) && !DATE_SEGMENT.test(segment);
+  }
+  if (segment.length >= 8 && /^[A-Za-z0-9_]+$/.test(segment)) {
+    if (/\d/.test(segment) && /[A-Za-z]/.test(segment)) return true;
+    // Vite/Rollup emit 8-char base64url hashes that may contain no digits;
+    // elsewhere such a segment is more likely a camelCase name.
+    return (
+      viteSuffix &&
+      segment.length === 8 &&
+      /[a-z]/.test(segment) &&
+      /.[A-Z]/.test(segment)
+    );
+  }
+  return false;
+}
+
+export function normalizeHashedPath(
+  filePath: string,
+  customPattern: RegExp | null = null
+): string {
+  let normalized = filePath.replace(/\\/g, '/');
+  if (customPattern) {
+    const flags = customPattern.flags.includes('g')
+      ? customPattern.flags
+      : `${customPattern.flags}g`;
+    normalized = normalized.replace(
+      new RegExp(customPattern.source, flags),
+      ''
+    );
+  }
+
+  const slash = normalized.lastIndexOf('/');
+  const dir = normalized.slice(0, slash + 1);
+  const base = normalized.slice(slash + 1);
+
+  const parts = base.split(/([.-])/);
+  if (parts.length < 5) return normalized;
+
+  // parts alternates segment / separator; keep the first segment and the
+  // extension, drop hash-looking segments together with their separator.
+  let result = parts[0];
+  for (let i = 2; i < parts.length - 2; i += 2) {
+    const viteSuffix = i === parts.length - 3 && parts[i - 1] === '-';
+    if (isHashSegment(parts[i], viteSuffix)) continue;
+    result += parts[i - 1] + parts[i];
+  }
+  result += parts[parts.length - 2] + parts[parts.length - 1];
+
+  return dir + result;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  // A "{" without a closing "}" is matched literally.
+  const groupStarts = new Set<number>();
+  const openBraces: number[] = [];
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === '{') openBraces.push(i);
+    if (glob[i] === '}' && openBraces.length > 0) {
+      groupStarts.add(openBraces.pop() as number);
+    }
+  }
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slashAfter = glob[i + 2] === '/';
+        source += slashAfter ? '(?:.*/)?' : '.*';
+        i += slashAfter ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && groupStarts.has(i)) {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
 
-  return (
-    extensions.some((ext) => lower.endsWith(ext)) &&
-    !exclude.some((ext) => lower.endsWith(ext))
-  );
+export function matchesGlob(filePath: string, glob: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/');
+  const pattern = glob.replace(/^\.\//, '');
+  // Patterns without a slash match the basename anywhere, like .gitignore.
+  if (!pattern.includes('/')) {
+    return globToRegExp(pattern).test(normalized.split('/').pop() ?? '');
+  }
+  return globToRegExp(pattern).test(normalized);
 }
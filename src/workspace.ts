@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { globToRegExp } from './utils';
+
+export interface WorkspacePackage {
+  // The "name" from the package's package.json.
+  name: string;
+  // Relative to the repo root, with forward slashes.
+  dir: string;
+}
+
+// "**" patterns stop descending here; workspaces are rarely nested deeper.
+const MAX_WORKSPACE_DEPTH = 5;
+
+function readJson(filePath: string): Record<string, unknown> | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ${filePath}: ${message}`);
+  }
+}
+
+function asPatterns(value: unknown, source: string): string[] {
+  if (!Array.isArray(value) || !value.every((p) => typeof p === 'string')) {
+    throw new Error(`${source} must be a list of glob patterns`);
+  }
+  return value;
+}
+
+// npm and yarn list workspaces in package.json, pnpm in pnpm-workspace.yaml.
+export function readWorkspacePatterns(repoRoot: string): string[] {
+  const patterns: string[] = [];
+
+  const manifest = readJson(path.join(repoRoot, 'package.json'));
+  const workspaces = manifest?.workspaces;
+  if (Array.isArray(workspaces)) {
+    patterns.push(...asPatterns(workspaces, 'package.json workspaces'));
+  } else if (workspaces && typeof workspaces === 'object') {
+    // Yarn classic: { "packages": [...], "nohoist": [...] }
+    const { packages } = workspaces as Record<string, unknown>;
+    patterns.push(...asPatterns(packages, 'package.json workspaces.packages'));
+  }
+
+  const pnpmPath = path.join(repoRoot, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmPath)) {
+    let pnpm: unknown;
+    try {
+      pnpm = parseYaml(fs.readFileSync(pnpmPath, 'utf-8'));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid pnpm-workspace.yaml: ${message}`);
+    }
+    const packages = (pnpm as Record<string, unknown> | null)?.packages;
+    if (packages !== undefined) {
+      patterns.push(...asPatterns(packages, 'pnpm-workspace.yaml packages'));
+    }
+  }
+
+  return patterns;
+}
+
+function listDirectories(
+  repoRoot: string,
+  dir: string,
+  depth: number
+): string[] {
+  const found: string[] = [];
+  if (depth === 0) return found;
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(repoRoot, dir), { withFileTypes: true });
+  } catch {
+    return found;
+  }
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+    const child = dir ? `${dir}/${entry.name}` : entry.name;
+    found.push(child, ...listDirectories(repoRoot, child, depth - 1));
+  }
+  return found;
+}
+
+export function discoverWorkspacePackages(
+  repoRoot: string = process.cwd()
+): WorkspacePackage[] {
+  const patterns = readWorkspacePatterns(repoRoot).map((p) =>
+    p.replace(/^\.\//, '').replace(/\/+$/, '')
+  );
+  const include = patterns.filter((p) => !p.startsWith('!'));
+  const exclude = patterns
+    .filter((p) => p.startsWith('!'))
+    .map((p) => globToRegExp(p.slice(1).replace(/^\.\//, '')));
+
+  const dirs = new Set<string>();
+  for (const pattern of include) {
+    const segments = pattern.split('/');
+    const firstGlob = segments.findIndex((s) => /[*?{]/.test(s));
+    if (firstGlob === -1) {
+      dirs.add(pattern);
+      continue;
+    }
+    // Only walk below the literal prefix of the pattern.
+    const prefix = segments.slice(0, firstGlob).join('/');
+    const depth = pattern.includes('**')
+      ? MAX_WORKSPACE_DEPTH
+      : segments.length - firstGlob;
+    const matcher = globToRegExp(pattern);
+    for (const dir of listDirectories(repoRoot, prefix, depth)) {
+      if (matcher.test(dir)) dirs.add(dir);
+    }
+  }
+
+  const packages: WorkspacePackage[] = [];
+  for (const dir of Array.from(dirs).sort()) {
+    if (exclude.some((matcher) => matcher.test(dir))) continue;
+    const manifest = readJson(path.join(repoRoot, dir, 'package.json'));
+    if (!manifest) continue;
+    const name = typeof manifest.name === 'string' ? manifest.name : dir;
+    packages.push({ name, dir });
+  }
+  return packages;
+}
+
+// Variant names end up in artifact and file names: "@acme/web" → "acme-web".
+export function variantNameFor(packageName: string): string {
+  return packageName
+    .replace(/^@/, '')
+    .replace(/\//g, '-')
+    .replace(/[^A-Za-z0-9_-]/g, '_');
+}
@@ -0,0 +1,106 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ActionInputs, BundleStats } from './types';
+import { executeBuild, installDeps } from './build';
+import { scanDirectory } from './scan';
+import { loadChunkGraph } from './metadata';
+import { runGit } from './git';
+
+function inWorktree(worktree: string, filePath: string): string {
+  return path.join(worktree, path.relative(process.cwd(), filePath));
+}
+
+async function scanWorktreeOutput(
+  worktree: string,
+  commit: string,
+  inputs: ActionInputs
+): Promise<BundleStats> {
+  const distPath = inWorktree(worktree, inputs.distPath);
+  const baseline = await scanDirectory(distPath, {
+    useGzip: inputs.gzip,
+    useBrotli: inputs.brotli,
+    commit,
+    sourceMaps: inputs.sourceMaps,
+    assetFilter: inputs.assetFilter,
+  });
+  if (inputs.bundleMetadata) {
+    try {
+      // Metadata paths are relative to the build root, which mirrors ours.
+      baseline.chunkGraph = loadChunkGraph(
+        inWorktree(worktree, inputs.bundleMetadata),
+        inputs.distPath
+      );
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      core.warning(`Baseline build: ${message}`);
+    }
+  }
+  return baseline;
+}
+
+// Builds the commit once and scans every output in outputs, e.g. each
+// package of a workspace. An output that cannot be scanned is null; the
+// whole result is null when the build itself fails.
+export async function buildBaselinesInWorktree(
+  commit: string,
+  inputs: ActionInputs,
+  outputs: ActionInputs[]
+): Promise<Array<BundleStats | null> | null> {
+  const worktree = await fs.promises.mkdtemp(
+    path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'build-size-diff-base-')
+  );
+  core.info(`Building baseline from ${commit.slice(0, 7)} in ${worktree}`);
+
+  try {
+    // Shallow checkouts usually lack the base commit.
+    await runGit(['fetch', '--no-tags', '--depth=1', 'origin', commit]).catch(
+      () => undefined
+    );
+    await runGit(['worktree', 'add', '--detach', worktree, commit]);
+
+    if (!inputs.skipInstall) {
+      await installDeps(worktree);
+    }
+    await executeBuild(
+      inputs.buildCommand,
+      inputs.buildTimeoutMs,
+      inputs.failOnStderr,
+      inputs.allowUnsafeBuild,
+      worktree
+    );
+
+    const baselines: Array<BundleStats | null> = [];
+    for (const output of outputs) {
+      try {
+        const baseline = await scanWorktreeOutput(worktree, commit, output);
+        core.info(
+          `Baseline built locally for ${output.distPath} (${baseline.files.length} files)`
+        );
+        baselines.push(baseline);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`Baseline build has no ${output.distPath}: ${message}`);
+        baselines.push(null);
+      }
+    }
+    return baselines;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to build baseline from base ref: ${message}`);
+    return null;
+  } finally {
+    await runGit(['worktree', 'remove', '--force', worktree]).catch(() =>
+      fs.promises.rm(worktree, { recursive: true, force: true })
+    );
+  }
+}
+
+export async function buildBaselineInWorktree(
+  commit: string,
+  inputs: ActionInputs
+): Promise<BundleStats | null> {
+  const baselines = await buildBaselinesInWorktree(commit, inputs, [inputs]);
+  return baselines?.[0] ?? null;
+}
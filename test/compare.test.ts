@@ -0,0 +1,203 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { evaluateBudgetRules, pairFiles } from '../src/compare';
+import { BudgetRule, BundleStats, FileStats } from '../src/types';
+
+function file(filePath: string, size: number): FileStats {
+  return {
+    path: filePath,
+    name: filePath.split('/').pop() as string,
+    category: filePath.endsWith('.css') ? 'styles' : 'scripts',
+    size,
+    gzip: Math.round(size / 3),
+    brotli: Math.round(size / 4),
+  };
+}
+
+// Sketch values stand in for shingle hashes, so similarities are exact.
+function fingerprinted(filePath: string, sketch: number[]): FileStats {
+  return {
+    ...file(filePath, 1024),
+    fingerprint: { hash: sketch.join('-'), sketch },
+  };
+}
+
+function stats(files: FileStats[]): BundleStats {
+  return {
+    schemaVersion: 2,
+    files,
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+    totalGzip: files.reduce((sum, f) => sum + f.gzip, 0),
+    totalBrotli: files.reduce((sum, f) => sum + f.brotli, 0),
+    timestamp: '2024-01-01T00:00:00.000Z',
+    commit: 'abc1234',
+  };
+}
+
+function rule(overrides: Partial<BudgetRule>): BudgetRule {
+  return {
+    files: '*.js',
+    metric: null,
+    maxKb: null,
+    maxIncreaseKb: null,
+    ...overrides,
+  };
+}
+
+describe('evaluateBudgetRules', () => {
+  const current = stats([
+    file('assets/index-a1b2c3d4.js', 60 * 1024),
+    file('assets/vendor-e5f6a7b8.js', 50 * 1024),
+    file('assets/index-c9d0e1f2.css', 40 * 1024),
+  ]);
+
+  it('sums every file matching the glob', () => {
+    const violations = evaluateBudgetRules(
+      [rule({ files: 'assets/*.js', maxKb: 100 })],
+      null,
+      current,
+      'size'
+    );
+    assert.equal(violations.length, 1);
+    assert.equal(violations[0].kind, 'max');
+    assert.equal(violations[0].actual, 110 * 1024);
+    assert.equal(violations[0].limit, 100 * 1024);
+  });
+
+  it('ignores files outside the glob', () => {
+    const violations = evaluateBudgetRules(
+      [rule({ files: '*.css', maxKb: 50 })],
+      null,
+      current,
+      'size'
+    );
+    assert.deepEqual(violations, []);
+  });
+
+  it('uses the rule metric over the default', () => {
+    const violations = evaluateBudgetRules(
+      [rule({ files: 'vendor-*.js', metric: 'gzip', maxKb: 15 })],
+      null,
+      current,
+      'size'
+    );
+    assert.equal(violations.length, 1);
+    assert.equal(violations[0].metric, 'gzip');
+  });
+
+  it('checks increases only against a baseline', () => {
+    const rules = [rule({ files: 'index-*.js', maxIncreaseKb: 5 })];
+    const baseline = stats([file('assets/index-00000000.js', 50 * 1024)]);
+
+    assert.deepEqual(evaluateBudgetRules(rules, null, current, 'size'), []);
+    const violations = evaluateBudgetRules(rules, baseline, current, 'size');
+    assert.equal(violations.length, 1);
+    assert.equal(violations[0].kind, 'increase');
+    assert.equal(violations[0].actual, 10 * 1024);
+  });
+
+  it('tags each violation with the index of its rule', () => {
+    const violations = evaluateBudgetRules(
+      [
+        rule({ files: '*.js', maxKb: 500 }),
+        rule({ files: '*.js', maxKb: 1 }),
+        rule({ files: '*.js', metric: 'brotli', maxKb: 1 }),
+      ],
+      null,
+      current,
+      'size'
+    );
+    assert.deepEqual(
+      violations.map((v) => v.rule),
+      [1, 2]
+    );
+  });
+});
+
+describe('pairFiles', () => {
+  const bySize = (f: FileStats) => f.size;
+  const describePairs = (pairs: ReturnType<typeof pairFiles>) =>
+    pairs.map((p) => [p.base?.path ?? null, p.current?.path ?? null]);
+
+  it('pairs files whose names differ only by a content hash', () => {
+    const pairs = pairFiles(
+      [file('assets/index-a1b2c3d4.js', 1000)],
+      [file('assets/index-e5f6a7b8.js', 1100)],
+      null,
+      bySize
+    );
+    assert.deepEqual(describePairs(pairs), [
+      ['assets/index-a1b2c3d4.js', 'assets/index-e5f6a7b8.js'],
+    ]);
+  });
+
+  it('pairs same-named hashed chunks by closest size', () => {
+    const pairs = pairFiles(
+      [
+        file('assets/index-a1b2c3d4.js', 1000),
+        file('assets/index-b2c3d4e5.js', 5200),
+      ],
+      [
+        file('assets/index-c3d4e5f6.js', 5000),
+        file('assets/index-d4e5f6a7.js', 1050),
+      ],
+      null,
+      bySize
+    );
+    assert.deepEqual(describePairs(pairs), [
+      ['assets/index-a1b2c3d4.js', 'assets/index-d4e5f6a7.js'],
+      ['assets/index-b2c3d4e5.js', 'assets/index-c3d4e5f6.js'],
+    ]);
+  });
+
+  it('pairs renamed files at the similarity threshold', () => {
+    // Union of the sketches is [1, 2, 3, 4] with two shared values: 0.5.
+    const pairs = pairFiles(
+      [fingerprinted('assets/old-name.js', [1, 2, 3])],
+      [fingerprinted('lib/new-name.js', [1, 2, 4])],
+      null,
+      bySize
+    );
+    assert.equal(pairs.length, 1);
+    assert.equal(pairs[0].similarity, 0.5);
+  });
+
+  it('keeps files below the similarity threshold apart', () => {
+    const pairs = pairFiles(
+      [fingerprinted('assets/old-name.js', [1, 2, 3, 4])],
+      [fingerprinted('lib/new-name.js', [1, 2, 5, 6])],
+      null,
+      bySize
+    );
+    assert.deepEqual(describePairs(pairs), [
+      ['assets/old-name.js', null],
+      [null, 'lib/new-name.js'],
+    ]);
+  });
+
+  it('never pairs files with different extensions', () => {
+    const pairs = pairFiles(
+      [fingerprinted('assets/theme.js', [1, 2, 3])],
+      [fingerprinted('assets/theme.css', [1, 2, 3])],
+      null,
+      bySize
+    );
+    assert.equal(pairs.length, 2);
+  });
+
+  it('gives each file to its most similar counterpart', () => {
+    const pairs = pairFiles(
+      [fingerprinted('a.js', [1, 2, 3, 4])],
+      [
+        fingerprinted('b.js', [1, 2, 3, 5]),
+        fingerprinted('c.js', [1, 2, 3, 4, 9]),
+      ],
+      null,
+      bySize
+    );
+    assert.deepEqual(describePairs(pairs), [
+      ['a.js', 'c.js'],
+      [null, 'b.js'],
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { inputsForVariant, parseRepoConfig } from '../src/config';
+import { ActionInputs, MetricLimits } from '../src/types';
+import { DEFAULT_ASSET_FILTER } from '../src/utils';
+
+function metricLimits(overrides: Partial<MetricLimits>): MetricLimits {
+  return {
+    budgetKb: null,
+    budgetPercent: null,
+    warnKb: null,
+    warnPercent: null,
+    failKb: null,
+    failPercent: null,
+    maxTotalKb: null,
+    maxFileKb: null,
+    ...overrides,
+  };
+}
+
+// Shared inputs comparing gzip sizes, with limits both at the top level and
+// per metric.
+function sharedInputs(): ActionInputs {
+  return {
+    buildCommand: 'npm run build',
+    buildTimeoutMs: 600000,
+    allowUnsafeBuild: false,
+    failOnStderr: false,
+    distPath: 'dist',
+    gzip: true,
+    brotli: false,
+    budgetMaxIncreaseKb: null,
+    warnAboveKb: 10,
+    failAboveKb: 50,
+    budgetMaxIncreasePercent: null,
+    warnAbovePercent: null,
+    failAbovePercent: null,
+    maxTotalKb: null,
+    maxFileKb: null,
+    metricLimits: {
+      gzip: metricLimits({ warnKb: 5, failKb: 20 }),
+      size: metricLimits({ warnKb: 15 }),
+    },
+    commentMode: 'always',
+    failOnCommentError: false,
+    skipInstall: false,
+    githubToken: '',
+    maxArtifactPages: 10,
+    hashPattern: null,
+    budgetRules: [
+      { files: '*.css', metric: null, maxKb: 50, maxIncreaseKb: null },
+    ],
+    routeBudgets: [],
+    sourceMaps: false,
+    bundleMetadata: null,
+    assetFilter: DEFAULT_ASSET_FILTER,
+    historySize: 0,
+    topChangesLimit: 10,
+    baselineMaxAgeDays: null,
+    staleBaseline: 'warn',
+    baselineStorage: 'artifact',
+    baselineBranch: 'build-size-diff-baselines',
+    baselineDir: '.build-size-diff',
+    baselineMode: 'latest',
+    buildBaseline: false,
+    determinismCheck: false,
+    variants: [],
+    workspaces: false,
+    packageLimits: {},
+    nondeterministicMode: 'flag',
+    mode: 'full',
+    checkRun: false,
+    checkName: 'Bundle size',
+    reportPath: null,
+    treemap: false,
+  };
+}
+
+function variantFromConfig(entry: Record<string, unknown>) {
+  const config = parseRepoConfig({
+    variants: [{ name: 'legacy', distPath: 'dist-legacy', ...entry }],
+  });
+  return config.variants[0];
+}
+
+describe('inputsForVariant', () => {
+  it('keeps shared limits the variant does not set', () => {
+    const inputs = inputsForVariant(sharedInputs(), variantFromConfig({}));
+    assert.equal(inputs.warnAboveKb, 10);
+    assert.equal(inputs.failAboveKb, 50);
+    assert.equal(inputs.metricLimits.gzip?.warnKb, 5);
+    assert.equal(inputs.metricLimits.gzip?.failKb, 20);
+    assert.equal(inputs.buildCommand, 'npm run build');
+    assert.equal(inputs.distPath, 'dist-legacy');
+  });
+
+  it('lets variant top-level limits beat shared per-metric ones', () => {
+    const inputs = inputsForVariant(
+      sharedInputs(),
+      variantFromConfig({ warnAboveKb: 30 })
+    );
+    assert.equal(inputs.warnAboveKb, 30);
+    // Folded into the compare metric only.
+    assert.equal(inputs.metricLimits.gzip?.warnKb, 30);
+    assert.equal(inputs.metricLimits.gzip?.failKb, 20);
+    assert.equal(inputs.metricLimits.size?.warnKb, 15);
+  });
+
+  it('lets variant per-metric limits beat its top-level ones', () => {
+    const inputs = inputsForVariant(
+      sharedInputs(),
+      variantFromConfig({
+        warnAboveKb: 30,
+        metrics: { gzip: { warnAboveKb: 40 }, size: { failAboveKb: 100 } },
+      })
+    );
+    assert.equal(inputs.metricLimits.gzip?.warnKb, 40);
+    assert.equal(inputs.metricLimits.size?.warnKb, 15);
+    assert.equal(inputs.metricLimits.size?.failKb, 100);
+  });
+
+  it('adds variant budget rules to the shared ones', () => {
+    const inputs = inputsForVariant(
+      sharedInputs(),
+      variantFromConfig({
+        buildCommand: 'npm run build:legacy',
+        budgets: [{ files: '*.js', maxKb: 200 }],
+      })
+    );
+    assert.deepEqual(
+      inputs.budgetRules.map((rule) => rule.files),
+      ['*.css', '*.js']
+    );
+    assert.equal(inputs.buildCommand, 'npm run build:legacy');
+    assert.deepEqual(inputs.variants, []);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { computeFingerprint, estimateSimilarity } from '../src/fingerprint';
+
+// Deterministic pseudo-random source text, so sketches are stable.
+function content(seed: number, length: number): Buffer {
+  let state = seed;
+  let text = '';
+  while (text.length < length) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    text += `var v${state % 997}=${state % 89};`;
+  }
+  return Buffer.from(text.slice(0, length));
+}
+
+describe('computeFingerprint', () => {
+  it('is stable for the same content', () => {
+    const a = computeFingerprint(content(1, 4096));
+    const b = computeFingerprint(content(1, 4096));
+    assert.deepEqual(a, b);
+    assert.equal(a.sketch.length, 32);
+  });
+
+  it('fingerprints files shorter than one shingle', () => {
+    assert.equal(computeFingerprint(Buffer.from('x')).sketch.length, 1);
+    assert.deepEqual(computeFingerprint(Buffer.alloc(0)).sketch, []);
+  });
+});
+
+describe('estimateSimilarity', () => {
+  const original = content(1, 8192);
+
+  it('is 1 for identical content', () => {
+    const fp = computeFingerprint(original);
+    assert.equal(estimateSimilarity(fp, computeFingerprint(original)), 1);
+  });
+
+  it('stays high after a small edit', () => {
+    const edited = Buffer.concat([
+      original.subarray(0, 4000),
+      Buffer.from('console.log("changed");'),
+      original.subarray(4000),
+    ]);
+    const similarity = estimateSimilarity(
+      computeFingerprint(original),
+      computeFingerprint(edited)
+    );
+    assert.ok(similarity > 0.8, `similarity ${similarity}`);
+  });
+
+  it('is low for unrelated content', () => {
+    const similarity = estimateSimilarity(
+      computeFingerprint(original),
+      computeFingerprint(content(2, 8192))
+    );
+    assert.ok(similarity < 0.2, `similarity ${similarity}`);
+  });
+
+  it('is 0 when either file is empty', () => {
+    assert.equal(
+      estimateSimilarity(
+        computeFingerprint(original),
+        computeFingerprint(Buffer.alloc(0))
+      ),
+      0
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { STATS_SCHEMA_VERSION, parseBundleStats } from '../src/schema';
+
+// Stats as written before schemaVersion existed.
+function legacyStats(): Record<string, unknown> {
+  return {
+    files: [
+      {
+        path: 'assets/app.js',
+        name: 'app.js',
+        size: 300,
+        gzip: 100,
+        brotli: 80,
+      },
+      {
+        path: 'assets/app.css',
+        name: 'app.css',
+        size: 90,
+        gzip: 30,
+        brotli: 20,
+      },
+      { path: 'logo.svg', name: 'logo.svg', size: 50, gzip: 40, brotli: 30 },
+    ],
+    totalSize: 440,
+    totalGzip: 170,
+    totalBrotli: 130,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    commit: 'abc1234',
+  };
+}
+
+describe('parseBundleStats', () => {
+  it('migrates unversioned stats to the current schema', () => {
+    const stats = parseBundleStats(legacyStats());
+    assert.equal(stats.schemaVersion, STATS_SCHEMA_VERSION);
+    assert.deepEqual(
+      stats.files.map((f) => f.category),
+      ['scripts', 'styles', 'images']
+    );
+  });
+
+  it('keeps categories that are already set', () => {
+    const raw = legacyStats();
+    (raw.files as Array<Record<string, unknown>>)[0].category = 'other';
+    assert.equal(parseBundleStats(raw).files[0].category, 'other');
+  });
+
+  it('accepts current stats unchanged', () => {
+    const current = parseBundleStats(legacyStats());
+    assert.deepEqual(parseBundleStats(current), current);
+  });
+
+  it('rejects stats from a newer schema', () => {
+    assert.throws(
+      () =>
+        parseBundleStats({
+          ...legacyStats(),
+          schemaVersion: STATS_SCHEMA_VERSION + 1,
+        }),
+      /is newer than this action supports/
+    );
+  });
+
+  it('rejects an invalid schemaVersion', () => {
+    assert.throws(
+      () => parseBundleStats({ ...legacyStats(), schemaVersion: 'two' }),
+      /schemaVersion: expected a positive integer, got "two"/
+    );
+  });
+
+  it('reports every invalid field with its location', () => {
+    const raw = legacyStats();
+    raw.totalGzip = -1;
+    (raw.files as Array<Record<string, unknown>>)[1].size = '90';
+    assert.throws(
+      () => parseBundleStats(raw),
+      (error: Error) => {
+        assert.match(
+          error.message,
+          /totalGzip: expected a non-negative number/
+        );
+        assert.match(
+          error.message,
+          /files\[1\]\.size: expected a non-negative/
+        );
+        return true;
+      }
+    );
+  });
+
+  it('rejects values that are not objects', () => {
+    assert.throws(() => parseBundleStats([]), /expected a JSON object/);
+    assert.throws(() => parseBundleStats(null), /got null/);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  attributeSourceMap,
+  moduleGroupFor,
+  normalizeSourcePath,
+} from '../src/sourcemap';
+
+function sourceMap(sources: string[], mappings: string) {
+  return { version: 3, sources, mappings };
+}
+
+describe('attributeSourceMap', () => {
+  it('decodes segment columns and source indexes', () => {
+    // "AAAA" maps column 0 to source 0; "KCAA" moves 5 columns and one source.
+    const result = attributeSourceMap(
+      'aaaaabbbbbbb',
+      sourceMap(['src/a.ts', 'src/b.ts'], 'AAAA,KCAA')
+    );
+    assert.deepEqual(result, [
+      { path: 'src/b.ts', size: 7 },
+      { path: 'src/a.ts', size: 5 },
+    ]);
+  });
+
+  it('decodes negative deltas and carries the source across lines', () => {
+    // Line 2 starts on source 1 and "KDAA" steps back to source 0.
+    const result = attributeSourceMap(
+      'aaaa\nbbbbbaaa',
+      sourceMap(['src/a.ts', 'src/b.ts'], 'ACAA;AAAA,KDAA')
+    );
+    assert.deepEqual(result, [
+      { path: 'src/b.ts', size: 9 },
+      { path: 'src/a.ts', size: 3 },
+    ]);
+  });
+
+  it('decodes multi-digit values', () => {
+    // "gB" is 16: a continuation digit followed by 1 << 5.
+    const generated = `${'x'.repeat(16)}yyyy`;
+    const result = attributeSourceMap(
+      generated,
+      sourceMap(['src/a.ts', 'src/b.ts'], 'AAAA,gBCAA')
+    );
+    assert.deepEqual(result, [
+      { path: 'src/a.ts', size: 16 },
+      { path: 'src/b.ts', size: 4 },
+    ]);
+  });
+
+  it('leaves segments without a source unattributed', () => {
+    const result = attributeSourceMap(
+      'aaaaabbbbb',
+      sourceMap(['src/a.ts'], 'AAAA,K')
+    );
+    assert.deepEqual(result, [{ path: 'src/a.ts', size: 5 }]);
+  });
+
+  it('rejects characters outside the base64 alphabet', () => {
+    assert.throws(
+      () => attributeSourceMap('a', sourceMap(['src/a.ts'], 'A!AA')),
+      /Invalid VLQ character: !/
+    );
+  });
+});
+
+describe('normalizeSourcePath', () => {
+  it('strips bundler prefixes and relative segments', () => {
+    assert.equal(
+      normalizeSourcePath('webpack://app/./src/index.ts'),
+      'src/index.ts'
+    );
+    assert.equal(normalizeSourcePath('../../src/a.ts?v=1'), 'src/a.ts');
+    assert.equal(normalizeSourcePath('src\\b.ts'), 'src/b.ts');
+  });
+});
+
+describe('moduleGroupFor', () => {
+  it('groups node_modules sources by package', () => {
+    assert.deepEqual(moduleGroupFor('node_modules/react/index.js'), {
+      name: 'react',
+      kind: 'package',
+    });
+    assert.deepEqual(
+      moduleGroupFor('node_modules/@scope/pkg/node_modules/@babel/x/y.js'),
+      { name: '@babel/x', kind: 'package' }
+    );
+  });
+
+  it('groups other sources by their first two directories', () => {
+    assert.deepEqual(moduleGroupFor('src/components/ui/Button.tsx'), {
+      name: 'src/components',
+      kind: 'directory',
+    });
+    assert.deepEqual(moduleGroupFor('main.ts'), {
+      name: '.',
+      kind: 'directory',
+    });
+  });
+});
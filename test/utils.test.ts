@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { globToRegExp, matchesGlob, normalizeHashedPath } from '../src/utils';
+
+describe('normalizeHashedPath', () => {
+  it('strips Vite and Rollup hashes', () => {
+    assert.equal(
+      normalizeHashedPath('assets/index-a1b2c3d4.js'),
+      'assets/index.js'
+    );
+    assert.equal(
+      normalizeHashedPath('assets/vendor-DxKq9_Lm.js'),
+      'assets/vendor.js'
+    );
+    // Base64url hashes without digits are still recognized after a dash.
+    assert.equal(
+      normalizeHashedPath('assets/index-BkLmQxRz.css'),
+      'assets/index.css'
+    );
+  });
+
+  it('strips webpack content hashes', () => {
+    assert.equal(
+      normalizeHashedPath('static/js/main.8f3a2b1c.js'),
+      'static/js/main.js'
+    );
+    assert.equal(
+      normalizeHashedPath('static/js/787.4e5d6f7a.chunk.js'),
+      'static/js/787.chunk.js'
+    );
+  });
+
+  it('keeps camelCase names and dates', () => {
+    assert.equal(
+      normalizeHashedPath('assets/my-useAuthHook.js'),
+      'assets/my-useAuthHook.js'
+    );
+    assert.equal(
+      normalizeHashedPath('reports/release-20240115-notes.js'),
+      'reports/release-20240115-notes.js'
+    );
+  });
+
+  it('normalizes Windows separators', () => {
+    assert.equal(
+      normalizeHashedPath('assets\\index-a1b2c3d4.js'),
+      'assets/index.js'
+    );
+  });
+
+  it('applies a custom hash pattern first', () => {
+    assert.equal(normalizeHashedPath('app.build42.js', /\.build\d+/), 'app.js');
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches patterns without a slash against the basename', () => {
+    assert.ok(matchesGlob('assets/vendor-a1b2c3d4.js', 'vendor-*.js'));
+    assert.ok(matchesGlob('deep/nested/app.css', '*.css'));
+    assert.ok(!matchesGlob('assets/app.js', '*.css'));
+  });
+
+  it('anchors patterns with a slash at the output root', () => {
+    assert.ok(matchesGlob('assets/app.js', 'assets/*.js'));
+    assert.ok(matchesGlob('assets/app.js', './assets/*.js'));
+    assert.ok(!matchesGlob('assets/chunks/app.js', 'assets/*.js'));
+    assert.ok(!matchesGlob('public/assets/app.js', 'assets/*.js'));
+  });
+
+  it('matches any depth with **', () => {
+    assert.ok(matchesGlob('assets/app.js', 'assets/**/*.js'));
+    assert.ok(matchesGlob('assets/chunks/lazy/app.js', 'assets/**/*.js'));
+    assert.ok(matchesGlob('assets\\chunks\\app.js', 'assets/**/*.js'));
+  });
+
+  it('expands brace alternatives', () => {
+    assert.ok(matchesGlob('assets/app.js', 'assets/*.{js,css}'));
+    assert.ok(matchesGlob('assets/app.css', 'assets/*.{js,css}'));
+    assert.ok(!matchesGlob('assets/app.png', 'assets/*.{js,css}'));
+  });
+});
+
+describe('globToRegExp', () => {
+  it('treats an unbalanced brace literally', () => {
+    assert.ok(globToRegExp('app{.js').test('app{.js'));
+    assert.ok(globToRegExp('{a,b}{.js').test('a{.js'));
+  });
+
+  it('escapes regular expression characters', () => {
+    assert.ok(globToRegExp('app.(min).js').test('app.(min).js'));
+    assert.ok(!globToRegExp('app.js').test('appxjs'));
+  });
+});